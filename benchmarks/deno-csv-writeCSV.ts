@@ -0,0 +1,33 @@
+import { readCSVRows, writeCSV } from "../mod.ts";
+
+const file = await Deno.open(Deno.args[0]);
+const rows: string[][] = [];
+
+for await (
+  const row of readCSVRows(file, {
+    lineSeparator: "\r\n",
+  })
+) {
+  rows.push(row);
+}
+
+file.close();
+
+const output = await Deno.open(Deno.args[1], {
+  write: true,
+  create: true,
+  truncate: true,
+});
+
+const start = performance.now();
+
+await writeCSV(output, rows, {
+  lineSeparator: "\r\n",
+});
+
+const diff = performance.now() - start;
+console.log(
+  `Wrote ${rows.length} lines for ${(diff / 1000).toFixed(3)} seconds`,
+);
+
+output.close();
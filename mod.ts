@@ -1,2 +1,6 @@
 export * from "./reader.ts";
 export * from "./writer.ts";
+export * from "./schema.ts";
+export * from "./sniffer.ts";
+export * from "./random_access.ts";
+export * from "./parallel.ts";
@@ -0,0 +1,366 @@
+import { concat } from "@std/bytes/concat";
+import type { CommonCSVReaderOptions, CSVParseErrorCode } from "./reader.ts";
+import { CSVParseError, readCSVRows } from "./reader.ts";
+import { getUint8Array } from "./utils.ts";
+
+/** Options for `readCSVParallel` */
+export interface CSVParallelOptions
+  extends Omit<CommonCSVReaderOptions, "nullValue"> {
+  /** Number of workers, defaults to the number of CPUs */
+  workers: number;
+  /** Approximate size in bytes of the part of file parsed by one worker */
+  chunkSize: number;
+  /** How many parsed or parsing chunks could be kept in memory */
+  maxChunksInFlight: number;
+}
+
+/** Part of file between record boundaries, sent to worker */
+export interface CSVParallelRange {
+  start: number;
+  end: number;
+  /** Line of `start`, starting from 1 */
+  line: number;
+}
+
+/** Message sent by worker, error is a plain object to be cloned */
+export interface CSVParallelResult {
+  id: number;
+  /** Rows of the range, or rows before the error */
+  rows: string[][];
+  error?: {
+    name: string;
+    message: string;
+    details?: {
+      code: CSVParseErrorCode;
+      line: number;
+      column: number;
+      byteOffset: number;
+      snippet: string;
+    };
+  };
+}
+
+/** Rows of the range and the error which stopped parsing */
+interface ParsedChunk {
+  rows: string[][];
+  error?: Error;
+}
+
+const defaultChunkSize = 8 * 1024 * 1024;
+const scanBufferSize = 1024 * 1024;
+
+/** Read CSV file using workers, rows are the same as `readCSVRows` returns:
+ *
+ *       for await (const row of readCSVParallel("./example.csv", { workers: 4 })) {
+ *         console.log(`row: ${row.join(' ')}`)
+ *       }
+ *
+ * File is split by record boundaries found by counting quotes from the beginning.
+ * When the boundaries couldn't be found this way (multibyte quote, `lineSeparator: "auto"`,
+ * separators containing quote, UTF-16 input) or options need the whole file
+ * (`autoDetect`, ranges like `fromLine`, `resumeFrom`, `errorMode`, `withInfo`, `comment`,
+ * `columnCount`, `escape`, `compression`, `maxRecords`),
+ * the file is read sequentially.
+ */
+export async function* readCSVParallel(
+  path: string | URL,
+  options?: Partial<CSVParallelOptions>,
+): AsyncIterable<string[]> {
+  const workers = options?.workers || navigator.hardwareConcurrency || 1;
+  const chunkSize = options?.chunkSize || defaultChunkSize;
+  const maxChunksInFlight = options?.maxChunksInFlight || workers * 2;
+  // only options which could be cloned are sent to workers
+  const parserOptions: Partial<CommonCSVReaderOptions> = Object.fromEntries(
+    Object.entries({
+      columnSeparator: options?.columnSeparator,
+      lineSeparator: options?.lineSeparator,
+      quote: options?.quote,
+      emptyLines: options?.emptyLines,
+      skipBlankRecords: options?.skipBlankRecords,
+      trim: options?.trim,
+      trimAroundQuotes: options?.trimAroundQuotes,
+      encoding: options?.encoding,
+      maxCellBytes: options?.maxCellBytes,
+      maxColumns: options?.maxColumns,
+      maxRecordBytes: options?.maxRecordBytes,
+    }).filter(([, value]) => value !== undefined),
+  );
+
+  if (workers < 2 || !canSplit(options) || await hasUTF16Bom(path)) {
+    const file = await Deno.open(path);
+    try {
+      yield* readCSVRows(file, options);
+    } finally {
+      file.close();
+    }
+    return;
+  }
+
+  const file = await Deno.open(path);
+  const pool = new WorkerPool(workers, path, parserOptions);
+  try {
+    const ranges = findRanges(
+      file,
+      chunkSize,
+      getUint8Array(options?.quote ?? '"'),
+      getUint8Array(options?.lineSeparator ?? "\n"),
+    );
+    const pending: Array<Promise<ParsedChunk>> = [];
+    let rangesDone = false;
+
+    while (true) {
+      while (!rangesDone && pending.length < maxChunksInFlight) {
+        const { done, value } = await ranges.next();
+        if (done) {
+          rangesDone = true;
+          break;
+        }
+        const chunk = pool.parse(value);
+        // errors are thrown in order when the chunk is reached
+        chunk.catch(() => {});
+        pending.push(chunk);
+      }
+
+      if (pending.length === 0) {
+        return;
+      }
+
+      const chunk = await pending.shift()!;
+      // workers can't be aborted, so the signal is checked between chunks
+      options?.signal?.throwIfAborted();
+      yield* chunk.rows;
+      if (chunk.error) {
+        throw chunk.error;
+      }
+    }
+  } finally {
+    pool.terminate();
+    file.close();
+  }
+}
+
+function canSplit(options?: Partial<CSVParallelOptions>) {
+  if (
+    options?.autoDetect ||
+    options?.fromLine ||
+    options?.toLine ||
+    options?.fromRecord ||
+    options?.toRecord !== undefined ||
+    options?.fromByte ||
+    options?.toByte !== undefined ||
+    options?.resumeFrom ||
+    options?.withInfo ||
+    options?.comment ||
+    options?.columnCount ||
+    options?.escape ||
+    options?.compression ||
+    options?.maxRecords !== undefined ||
+    (options?.errorMode && options.errorMode !== "throw") ||
+    options?.lineSeparator === "auto"
+  ) {
+    return false;
+  }
+
+  const encoding = new TextDecoder(options?.encoding).encoding;
+  if (encoding === "utf-16le" || encoding === "utf-16be") {
+    return false;
+  }
+
+  const quote = getUint8Array(options?.quote ?? '"');
+  const lineSeparator = getUint8Array(options?.lineSeparator ?? "\n");
+  const columnSeparator = getUint8Array(options?.columnSeparator ?? ",");
+
+  return quote.length === 1 &&
+    lineSeparator.length > 0 &&
+    !lineSeparator.includes(quote[0]) &&
+    !columnSeparator.includes(quote[0]);
+}
+
+/** Bytes of UTF-16 code units could be the same as quote or line separator */
+async function hasUTF16Bom(path: string | URL): Promise<boolean> {
+  const file = await Deno.open(path);
+  try {
+    const bom = new Uint8Array(2);
+    const n = await file.read(bom);
+    return n === 2 &&
+      ((bom[0] === 0xff && bom[1] === 0xfe) ||
+        (bom[0] === 0xfe && bom[1] === 0xff));
+  } finally {
+    file.close();
+  }
+}
+
+/** Finds line separators outside of quotes after every `chunkSize` bytes */
+async function* findRanges(
+  file: Deno.FsFile,
+  chunkSize: number,
+  quote: Uint8Array,
+  lineSeparator: Uint8Array,
+): AsyncGenerator<CSVParallelRange> {
+  const q = quote[0];
+  const last = lineSeparator[lineSeparator.length - 1];
+  const block = new Uint8Array(scanBufferSize);
+  // the end of previous block could contain the beginning of line separator
+  let tail = new Uint8Array();
+  let pos = 0;
+  let inQuote = false;
+  let lines = 0;
+  let nextSeparatorEnd = 0;
+  let start = 0;
+  let startLine = 1;
+
+  while (true) {
+    const n = await file.read(block);
+    if (n === null) {
+      break;
+    }
+
+    const buf = concat([tail, block.subarray(0, n)]);
+    const bufStart = pos - tail.length;
+    for (let i = tail.length; i < buf.length; i++) {
+      const b = buf[i];
+      if (b === q) {
+        inQuote = !inQuote;
+        continue;
+      }
+      if (b !== last) {
+        continue;
+      }
+
+      const end = bufStart + i + 1;
+      if (
+        end - lineSeparator.length < nextSeparatorEnd ||
+        !endsWith(buf, i + 1, lineSeparator)
+      ) {
+        continue;
+      }
+      nextSeparatorEnd = end;
+      // quoted line separators are counted by parser as well
+      lines++;
+
+      if (!inQuote && end - start >= chunkSize) {
+        yield { start, end, line: startLine };
+        start = end;
+        startLine = lines + 1;
+      }
+    }
+
+    pos += n;
+    tail = buf.slice(Math.max(buf.length - lineSeparator.length + 1, 0));
+  }
+
+  if (pos > start || start === 0) {
+    yield { start, end: pos, line: startLine };
+  }
+}
+
+function endsWith(a: Uint8Array, end: number, suffix: Uint8Array) {
+  if (end < suffix.length) {
+    return false;
+  }
+  for (let i = 0; i < suffix.length; i++) {
+    if (a[end - suffix.length + i] !== suffix[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+class WorkerPool {
+  private workers: Worker[];
+  private idle: Worker[];
+  private queue: Array<{ id: number; range: CSVParallelRange }>;
+  private tasks: Map<
+    number,
+    { resolve: (chunk: ParsedChunk) => void; reject: (err: Error) => void }
+  >;
+  private nextId: number;
+
+  constructor(
+    size: number,
+    path: string | URL,
+    options: Partial<CommonCSVReaderOptions>,
+  ) {
+    this.workers = [];
+    this.idle = [];
+    this.queue = [];
+    this.tasks = new Map();
+    this.nextId = 0;
+
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(
+        new URL("./parallel_worker.ts", import.meta.url).href,
+        { type: "module" },
+      );
+      worker.onmessage = (e: MessageEvent<CSVParallelResult>) => {
+        this.onResult(worker, e.data);
+      };
+      worker.onerror = (e) => {
+        e.preventDefault();
+        this.fail(new Error(e.message));
+      };
+      // URL is sent as string and created again by the worker
+      worker.postMessage(
+        path instanceof URL
+          ? { path: path.href, url: true, options }
+          : { path, url: false, options },
+      );
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  parse(range: CSVParallelRange): Promise<ParsedChunk> {
+    const id = this.nextId++;
+    const promise = new Promise<ParsedChunk>((resolve, reject) => {
+      this.tasks.set(id, { resolve, reject });
+    });
+    this.queue.push({ id, range });
+    this.dispatch();
+    return promise;
+  }
+
+  terminate() {
+    for (const worker of this.workers) {
+      worker.terminate();
+    }
+    this.fail(new Error("Worker pool is terminated"));
+  }
+
+  private dispatch() {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      worker.postMessage(this.queue.shift()!);
+    }
+  }
+
+  private onResult(worker: Worker, result: CSVParallelResult) {
+    const task = this.tasks.get(result.id);
+    this.tasks.delete(result.id);
+    this.idle.push(worker);
+    this.dispatch();
+
+    if (!task) {
+      return;
+    }
+    const { rows, error } = result;
+    if (!error) {
+      task.resolve({ rows });
+    } else if (error.details) {
+      const { code, ...details } = error.details;
+      task.resolve({
+        rows,
+        error: new CSVParseError(code, error.message, details),
+      });
+    } else {
+      task.resolve({ rows, error: new Error(error.message) });
+    }
+  }
+
+  private fail(err: Error) {
+    for (const task of this.tasks.values()) {
+      task.reject(err);
+    }
+    this.tasks.clear();
+  }
+}
@@ -0,0 +1,148 @@
+import { assert } from "@std/assert/assert";
+import { assertEquals } from "@std/assert/equals";
+import { readCSVParallel } from "./parallel.ts";
+import { CSVParseError, readCSVRows } from "./reader.ts";
+import { asyncArrayFrom } from "./utils.ts";
+
+const dir = "./third_party/csv-spectrum/csvs/";
+
+for await (const file of Deno.readDir(dir)) {
+  const path = dir + file.name;
+
+  Deno.test({
+    name: `readCSVParallel produces the same rows as readCSVRows for ${path}`,
+    async fn() {
+      const options = {
+        lineSeparator: path.includes("crlf") ? "\r\n" : "\n",
+      };
+      const f = await Deno.open(path);
+      const expected = await asyncArrayFrom(readCSVRows(f, options));
+      f.close();
+
+      for (const chunkSize of [1, 7, 1024]) {
+        const actual = await asyncArrayFrom(
+          readCSVParallel(path, { ...options, workers: 2, chunkSize }),
+        );
+        assertEquals(actual, expected);
+      }
+    },
+  });
+}
+
+/** Reads rows till the end or the error */
+async function readRows(rows: AsyncIterable<string[]>) {
+  const result: string[][] = [];
+  try {
+    for await (const row of rows) {
+      result.push(row);
+    }
+  } catch (err) {
+    return { rows: result, error: err };
+  }
+  return { rows: result };
+}
+
+/** Counts workers created while reading */
+async function countWorkers(rows: AsyncIterable<string[]>) {
+  const OriginalWorker = globalThis.Worker;
+  let created = 0;
+  globalThis.Worker = class extends OriginalWorker {
+    constructor(...args: ConstructorParameters<typeof Worker>) {
+      super(...args);
+      created++;
+    }
+  };
+  try {
+    return { ...await readRows(rows), workers: created };
+  } finally {
+    globalThis.Worker = OriginalWorker;
+  }
+}
+
+Deno.test({
+  name: "readCSVParallel reads sequentially when boundaries are ambiguous",
+  async fn() {
+    const path = dir + "quotes_and_newlines.csv";
+
+    for (
+      const options of [
+        {},
+        { lineSeparator: "auto" },
+        { quote: "''" },
+        { columnSeparator: '"' },
+        { lineSeparator: '"\n' },
+        { encoding: "utf-16le" },
+        { fromLine: 1 },
+      ]
+    ) {
+      const f = await Deno.open(path);
+      const expected = await readRows(readCSVRows(f, options));
+      f.close();
+
+      const actual = await countWorkers(
+        readCSVParallel(path, { ...options, workers: 2, chunkSize: 1 }),
+      );
+      assertEquals(actual.rows, expected.rows);
+      assertEquals(String(actual.error), String(expected.error));
+      // only default options could be split by record boundaries
+      assertEquals(actual.workers, Object.keys(options).length ? 0 : 2);
+    }
+  },
+});
+
+Deno.test({
+  name: "readCSVParallel reads file by URL in workers",
+  async fn() {
+    const url = new URL(
+      "./third_party/csv-spectrum/csvs/newlines.csv",
+      import.meta.url,
+    );
+    const f = await Deno.open(url);
+    const expected = await asyncArrayFrom(readCSVRows(f));
+    f.close();
+
+    const actual = await countWorkers(
+      readCSVParallel(url, { workers: 2, chunkSize: 7 }),
+    );
+    assertEquals(actual.workers, 2);
+    assertEquals(actual.error, undefined);
+    assertEquals(actual.rows, expected);
+  },
+});
+
+Deno.test({
+  name: "readCSVParallel returns rows before the error in the middle chunk",
+  async fn() {
+    const path = "./testdata/invalid_record.csv";
+    const f = await Deno.open(path);
+    const expected = await readRows(readCSVRows(f));
+    f.close();
+    assertEquals(expected.rows.length, 149);
+    assert(expected.error instanceof CSVParseError);
+
+    const actual = await countWorkers(
+      readCSVParallel(path, { workers: 2, chunkSize: 500 }),
+    );
+    assertEquals(actual.workers, 2);
+    assertEquals(actual.rows, expected.rows);
+    assert(actual.error instanceof CSVParseError);
+    assertEquals(
+      {
+        message: actual.error.message,
+        code: actual.error.code,
+        line: actual.error.line,
+        column: actual.error.column,
+        byteOffset: actual.error.byteOffset,
+        snippet: actual.error.snippet,
+      },
+      {
+        message: expected.error.message,
+        code: expected.error.code,
+        line: expected.error.line,
+        column: expected.error.column,
+        byteOffset: expected.error.byteOffset,
+        snippet: expected.error.snippet,
+      },
+    );
+  },
+});
@@ -0,0 +1,100 @@
+/// <reference no-default-lib="true" />
+/// <reference lib="deno.worker" />
+
+import type { Reader, SeekMode } from "@std/io/types";
+import type { CommonCSVReaderOptions } from "./reader.ts";
+import { CSVParseError, readCSVRows } from "./reader.ts";
+import type { CSVParallelRange, CSVParallelResult } from "./parallel.ts";
+
+/** Reads file till the end of the range */
+class RangeReader implements Reader {
+  private file: Deno.FsFile;
+  private end: number;
+  private pos: number;
+
+  constructor(file: Deno.FsFile, end: number) {
+    this.file = file;
+    this.end = end;
+    this.pos = 0;
+  }
+
+  async seek(offset: number, whence: SeekMode): Promise<number> {
+    this.pos = await this.file.seek(offset, whence as number);
+    return this.pos;
+  }
+
+  async read(p: Uint8Array): Promise<number | null> {
+    const left = this.end - this.pos;
+    if (left <= 0) {
+      return null;
+    }
+    const n = await this.file.read(p.subarray(0, Math.min(p.length, left)));
+    if (n !== null) {
+      this.pos += n;
+    }
+    return n;
+  }
+}
+
+let path: string | URL = "";
+let options: Partial<CommonCSVReaderOptions> = {};
+
+/** Rows are collected in `rows` to be sent with the error */
+async function parseRange(
+  range: CSVParallelRange,
+  rows: string[][],
+): Promise<void> {
+  const file = await Deno.open(path);
+  try {
+    const reader = readCSVRows(new RangeReader(file, range.end), {
+      ...options,
+      resumeFrom: { byteOffset: range.start, line: range.line, record: 0 },
+    });
+    for await (const row of reader) {
+      rows.push(row);
+    }
+  } finally {
+    file.close();
+  }
+}
+
+self.onmessage = async (
+  e: MessageEvent<
+    | { path: string; url: boolean; options: Partial<CommonCSVReaderOptions> }
+    | { id: number; range: CSVParallelRange }
+  >,
+) => {
+  if ("path" in e.data) {
+    path = e.data.url ? new URL(e.data.path) : e.data.path;
+    options = e.data.options;
+    return;
+  }
+
+  const { id, range } = e.data;
+  const rows: string[][] = [];
+  let result: CSVParallelResult;
+  try {
+    await parseRange(range, rows);
+    result = { id, rows };
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    result = {
+      id,
+      rows,
+      error: {
+        name: error.name,
+        message: error.message,
+        details: error instanceof CSVParseError
+          ? {
+            code: error.code,
+            line: error.line,
+            column: error.column,
+            byteOffset: error.byteOffset,
+            snippet: error.snippet,
+          }
+          : undefined,
+      },
+    };
+  }
+  self.postMessage(result);
+};
@@ -0,0 +1,148 @@
+import type { Reader, Seeker } from "@std/io/types";
+import { SeekMode } from "@std/io/types";
+import type {
+  CommonCSVReaderOptions,
+  CSVCheckpoint,
+  CSVReaderSource,
+} from "./reader.ts";
+import { CSVReader, readCSVRows } from "./reader.ts";
+
+/** Options for `buildCSVIndex` */
+export interface CSVIndexOptions extends CommonCSVReaderOptions {
+  /** Position of every `interval`th record is saved */
+  interval: number;
+}
+
+/** Positions of records, plain object which could be saved as JSON */
+export interface CSVIndex {
+  interval: number;
+  /** Number of records in the input */
+  records: number;
+  /** Positions of indexed records ordered by record */
+  checkpoints: CSVCheckpoint[];
+}
+
+const defaultInterval = 1000;
+
+/** Build index of record positions for `CSVRandomAccessReader`:
+ *
+ *       const f = await Deno.open("./example.csv");
+ *       const index = await buildCSVIndex(f, { interval: 100 });
+ *       await Deno.writeTextFile("./example.csv.index", JSON.stringify(index));
+ */
+export function buildCSVIndex(
+  reader: CSVReaderSource,
+  options?: Partial<CSVIndexOptions>,
+): Promise<CSVIndex> {
+  const interval = options?.interval || defaultInterval;
+  const index: CSVIndex = { interval, records: 0, checkpoints: [] };
+
+  return new Promise((resolve, reject) => {
+    const csv = new CSVReader(reader, {
+      ...options,
+      onRowEnd({ record, startByte, startLine }) {
+        // invalid records are counted, so the record could be after the expected one
+        const last = index.checkpoints[index.checkpoints.length - 1];
+        if (!last || record - last.record >= interval) {
+          index.checkpoints.push({
+            byteOffset: startByte,
+            line: startLine,
+            record,
+          });
+        }
+      },
+      onEnd() {
+        index.records = csv.checkpoint().record;
+        resolve(index);
+      },
+      onError: reject,
+    });
+    csv.read();
+  });
+}
+
+/** Reads ranges of records using index built by `buildCSVIndex`:
+ *
+ *       const f = await Deno.open("./example.csv");
+ *       const index = JSON.parse(await Deno.readTextFile("./example.csv.index"));
+ *       const reader = new CSVRandomAccessReader(f, index);
+ *       const page = await reader.readRecords(1_000_000, 1_000_100);
+ */
+export class CSVRandomAccessReader {
+  private reader: Reader & Seeker;
+  private index: CSVIndex;
+  private options?: Partial<CommonCSVReaderOptions>;
+  private queue: Promise<unknown>;
+
+  constructor(
+    reader: Reader & Seeker,
+    index: CSVIndex,
+    options?: Partial<CommonCSVReaderOptions>,
+  ) {
+    this.reader = reader;
+    this.index = index;
+    this.options = options;
+    this.queue = Promise.resolve();
+  }
+
+  /** Number of records in the input */
+  get length(): number {
+    return this.index.records;
+  }
+
+  /** Read records from `from` inclusive till `to` exclusive */
+  readRecords(from: number, to: number): Promise<string[][]> {
+    // reads share the position of the reader, so they are serialized
+    const result = this.queue.then(() => this.read(from, to));
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  private async read(from: number, to: number): Promise<string[][]> {
+    const rows: string[][] = [];
+    if (from >= to) {
+      return rows;
+    }
+
+    const resumeFrom = this.findCheckpoint(from);
+    // records before the first checkpoint are read from the beginning,
+    // the reader could be left anywhere by the previous read
+    if (!resumeFrom) {
+      await this.reader.seek(0, SeekMode.Start);
+    }
+    const records = readCSVRows(this.reader, {
+      ...this.options,
+      resumeFrom,
+      withInfo: true,
+    });
+    for await (const { row, record } of records) {
+      if (record >= to) {
+        break;
+      }
+      if (record >= from) {
+        rows.push(row);
+      }
+    }
+
+    return rows;
+  }
+
+  private findCheckpoint(record: number): CSVCheckpoint | undefined {
+    const { checkpoints } = this.index;
+    let low = 0;
+    let high = checkpoints.length - 1;
+    let found: CSVCheckpoint | undefined;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (checkpoints[mid].record <= record) {
+        found = checkpoints[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return found;
+  }
+}
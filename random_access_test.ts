@@ -0,0 +1,125 @@
+import type { Reader, Seeker } from "@std/io/types";
+import { SeekMode } from "@std/io/types";
+import { assertEquals } from "@std/assert/equals";
+import { buildCSVIndex, CSVRandomAccessReader } from "./random_access.ts";
+import { parseCSV } from "./reader.ts";
+
+class SeekableReader implements Reader, Seeker {
+  private buf: Uint8Array;
+  private index: number;
+
+  constructor(content: string) {
+    this.buf = new TextEncoder().encode(content);
+    this.index = 0;
+  }
+
+  read(p: Uint8Array): Promise<number | null> {
+    const unread = this.buf.length - this.index;
+    if (unread <= 0) {
+      return Promise.resolve(null);
+    }
+    const toRead = Math.min(p.length, unread);
+    p.set(this.buf.subarray(this.index, this.index + toRead));
+    this.index += toRead;
+    return Promise.resolve(toRead);
+  }
+
+  seek(offset: number, whence: SeekMode): Promise<number> {
+    if (whence !== SeekMode.Start) {
+      throw new Error("not implemented");
+    }
+    this.index = offset;
+    return Promise.resolve(offset);
+  }
+}
+
+const content = [
+  "id,value",
+  ...Array.from({ length: 20 }, (_, i) => `${i},"line ${i}\nnext ${i}"`),
+].join("\n");
+
+Deno.test({
+  name: "buildCSVIndex saves positions of every Nth record",
+  async fn() {
+    const index = await buildCSVIndex(new SeekableReader(content), {
+      interval: 5,
+    });
+
+    assertEquals(index.interval, 5);
+    assertEquals(index.records, 21);
+    assertEquals(
+      index.checkpoints.map(({ record, line }) => ({ record, line })),
+      [
+        { record: 0, line: 1 },
+        { record: 5, line: 10 },
+        { record: 10, line: 20 },
+        { record: 15, line: 30 },
+        { record: 20, line: 40 },
+      ],
+    );
+  },
+});
+
+Deno.test({
+  name: "CSVRandomAccessReader reads ranges of records",
+  async fn() {
+    const index = await buildCSVIndex(new SeekableReader(content), {
+      interval: 5,
+    });
+    const rows = parseCSV(content);
+    const reader = new CSVRandomAccessReader(
+      new SeekableReader(content),
+      JSON.parse(JSON.stringify(index)),
+    );
+
+    assertEquals(reader.length, 21);
+    assertEquals(await reader.readRecords(0, 2), rows.slice(0, 2));
+    assertEquals(await reader.readRecords(7, 12), rows.slice(7, 12));
+    assertEquals(await reader.readRecords(19, 30), rows.slice(19));
+    assertEquals(await reader.readRecords(5, 5), []);
+  },
+});
+
+Deno.test({
+  name: "CSVRandomAccessReader reads records before the first checkpoint",
+  async fn() {
+    const index = await buildCSVIndex(new SeekableReader(content), {
+      interval: 5,
+    });
+    const rows = parseCSV(content);
+    const reader = new CSVRandomAccessReader(new SeekableReader(content), {
+      ...index,
+      checkpoints: index.checkpoints.slice(1),
+    });
+
+    assertEquals(await reader.readRecords(12, 14), rows.slice(12, 14));
+    assertEquals(await reader.readRecords(1, 3), rows.slice(1, 3));
+    assertEquals(await reader.readRecords(0, 1), rows.slice(0, 1));
+  },
+});
+
+Deno.test({
+  name: "CSVRandomAccessReader serializes concurrent reads",
+  async fn() {
+    const index = await buildCSVIndex(new SeekableReader(content), {
+      interval: 3,
+    });
+    const rows = parseCSV(content);
+    const reader = new CSVRandomAccessReader(
+      new SeekableReader(content),
+      index,
+    );
+
+    const pages = await Promise.all([
+      reader.readRecords(1, 4),
+      reader.readRecords(13, 16),
+      reader.readRecords(8, 9),
+    ]);
+
+    assertEquals(pages, [
+      rows.slice(1, 4),
+      rows.slice(13, 16),
+      rows.slice(8, 9),
+    ]);
+  },
+});
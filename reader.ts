@@ -1,25 +1,264 @@
-import type { Reader } from "@std/io/types";
+import type { Reader, Seeker } from "@std/io/types";
+import { SeekMode } from "@std/io/types";
 import { concat } from "@std/bytes/concat";
 import { repeat } from "@std/bytes/repeat";
 import type { Logger } from "@std/log";
 import { getLogger } from "@std/log";
 import { iterateReader } from "@std/io/iterate-reader";
 import { getUint8Array, hasPrefixFrom } from "./utils.ts";
+import type { CSVSchema, CSVSchemaObject } from "./schema.ts";
+import { CSVSchemaError } from "./schema.ts";
+import { sniffCSVDialect } from "./sniffer.ts";
+
+/** Source of CSV bytes: `Reader`, web `ReadableStream` or whole input in memory */
+export type CSVReaderSource = Reader | ReadableStream<Uint8Array> | Uint8Array;
 
 /** Common options for CSV reader module */
 export interface CommonCSVReaderOptions {
   columnSeparator: string | Uint8Array;
+  /** `"auto"` accepts any of `\n`, `\r\n` and `\r` as line separator */
   lineSeparator: string | Uint8Array;
   quote: string | Uint8Array;
+  /** Character making the next character literal inside and outside of quoted cells,
+   * like `\\` in `"a \\"b\\"",c\\,d`, quotes are still doubled when it is the same as `quote`
+   */
+  escape?: string | Uint8Array;
+  /** Lines starting with this prefix outside of quoted cells are skipped */
+  comment?: string | Uint8Array;
+  /** Called for every comment line with its text without prefix */
+  onComment?: (comment: string, info: Omit<CSVCellInfo, "quoted">) => void;
+  /** What to do with empty lines:
+   * `"skip"` (default) ignores them,
+   * `"emit"` produces a row with one empty cell,
+   * `"error"` treats them as malformed records, see `errorMode`
+   */
+  emptyLines?: "skip" | "emit" | "error";
+  /** Drop records whose cells are all empty or whitespace, like `a, ,""` */
+  skipBlankRecords?: boolean;
+  /** Remove spaces and tabs from the sides of unquoted cells, `"none"` by default */
+  trim?: "none" | "left" | "right" | "both";
+  /** Allow spaces and tabs before opening and after closing quote, like `"a" , "b"`,
+   * they aren't included in the cell
+   */
+  trimAroundQuotes?: boolean;
+  /** What to do with records having other number of cells than the first record (the header):
+   * `"strict"` treats them as malformed records with `COLUMN_COUNT` code, see `errorMode`,
+   * `"pad"` adds `padValue` cells to short records,
+   * `"truncate"` drops extra cells,
+   * `"rest"` keeps extra cells of rows and collects them in `restKey` of objects,
+   * records aren't checked by default
+   */
+  columnCount?: "strict" | "pad" | "truncate" | "rest";
+  /** Value of cells added by `columnCount: "pad"`, empty string by default */
+  padValue?: string;
+  /** Unquoted cells equal to it become `null`, like `""` or `\\N` of PostgreSQL exports,
+   * supported by `readCSVRows`, `readCSVObjects`, `parseCSV` and `parseCSVObjects`
+   */
+  nullValue?: string;
+  /** Encoding of the input, any label supported by `TextDecoder`, UTF-8 by default.
+   * UTF-8 and UTF-16 byte order marks at the beginning of input override it,
+   * string separators, `quote`, `escape` and `comment` are encoded in UTF-16
+   * for `"utf-16le"` and `"utf-16be"` and in UTF-8 for other encodings.
+   * Reading from `resumeFrom` doesn't see BOM, so UTF-16 input needs the option then
+   */
   encoding?: string;
+  /** Decompress input with `DecompressionStream`, `"auto"` detects gzip by magic bytes.
+   * Byte positions are positions in the decompressed input,
+   * so compressed input couldn't be read from `resumeFrom`
+   */
+  compression?: "gzip" | "deflate" | "auto";
+  /** Detect separators and quote by the beginning of input, see `sniffCSVDialect` */
+  autoDetect?: boolean;
   fromLine?: number;
   toLine?: number;
+  /** Index of the first record to read, quoted line separators don't split records */
+  fromRecord?: number;
+  /** Index of the record to stop before, exclusive like `toLine` */
+  toRecord?: number;
+  /** Read records starting at this byte or later */
+  fromByte?: number;
+  /** Stop before the first record starting at this byte or later,
+   * so ranges `fromByte: a, toByte: b` and `fromByte: b` don't share records
+   */
+  toByte?: number;
+  /** What to do with malformed records:
+   * `"throw"` (default) stops reading with error,
+   * `"skip"` drops the record and continues from the next line,
+   * `"collect"` does the same and keeps dropped records in `errors` of returned iterable.
+   * Unless it is `"throw"`, `readCSV` and `readCSVStream` hold cells till the end of record
+   */
+  errorMode?: "throw" | "skip" | "collect";
+  /** Called for every dropped malformed record when `errorMode` isn't `"throw"` */
+  onInvalidRecord?: (record: CSVInvalidRecord) => void;
+  /** Limits of untrusted input, reading stops with `CSVParseError` when any is exceeded
+   * regardless of `errorMode`. Maximum size of a cell in bytes, including quoted line separators
+   */
+  maxCellBytes?: number;
+  /** Maximum number of cells in a record */
+  maxColumns?: number;
+  /** Maximum size of a record or a comment line in bytes, lines skipped by `fromLine` aren't limited */
+  maxRecordBytes?: number;
+  /** Maximum number of records in input, including the header and records skipped by `fromRecord` */
+  maxRecords?: number;
+  /** Continue parsing from the checkpoint, requires seekable reader like `Deno.FsFile` */
+  resumeFrom?: CSVCheckpoint;
+  /** Stops reading, pending and later reads are rejected with the abort reason
+   * (wrapped in `Error` with `cause` when it isn't an error), buffers are released
+   */
+  signal?: AbortSignal;
+  /** Produce rows as `{ row, ...CSVRecordInfo }`,
+   * supported by `readCSVRows`, `readCSVObjects`, `parseCSV` and `parseCSVObjects`
+   */
+  withInfo?: boolean;
+}
+
+/** Record boundary to resume parsing from, see `resumeFrom` option */
+export interface CSVCheckpoint {
+  /** Position of the next record in bytes from the beginning of input */
+  byteOffset: number;
+  /** Line where the next record starts, starting from 1 */
+  line: number;
+  /** Index of the next record, starting from 0 */
+  record: number;
+  /** Header row, set by `readCSVObjects` to resume reading of objects */
+  header?: string[];
+}
+
+/** Position of the parsed record */
+export interface CSVRecordInfo {
+  /** Index of the record, starting from 0 */
+  record: number;
+  /** Line where the record starts, starting from 1 */
+  startLine: number;
+  /** Line where the record ends, differs from `startLine` for multiline cells */
+  endLine: number;
+  /** Position of the record in bytes from the beginning of input */
+  startByte: number;
+  /** Position after the last byte of the record, line separator is excluded */
+  endByte: number;
+}
+
+/** Object produced with `duplicateHeaders: "array"`, `columnCount: "rest"` or `nullValue` options */
+export interface CSVLooseObject {
+  [key: string]: string | null | Array<string | null>;
+}
+
+/** Row produced with `withInfo` option */
+export interface CSVRowWithInfo<T> extends CSVRecordInfo {
+  row: T;
+}
+
+/** Malformed record dropped by reader */
+export interface CSVInvalidRecord {
+  /** Parsing error */
+  error: CSVParseError;
+  /** Raw bytes of the record without line separator */
+  raw: Uint8Array;
+  /** Line where the record starts, starting from 1 */
+  line: number;
+  /** Position of the record in bytes from the beginning of input */
+  byteOffset: number;
+}
+
+/** Records iterable, collects malformed records in `errorMode: "collect"` */
+export interface CSVRecordIterable<T> extends AsyncIterable<T> {
+  /** Malformed records dropped so far */
+  readonly errors: CSVInvalidRecord[];
+  /** Position after the last read record */
+  checkpoint(): CSVCheckpoint;
+}
+
+/** Options for reading CSV as objects */
+export interface CSVObjectsReaderOptions<S extends CSVSchema = CSVSchema>
+  extends CommonCSVReaderOptions {
+  /** Converters for columns by header name, see `csvTypes` */
+  schema: S;
+  /** Header of the input without header row, the first row is read as data */
+  columns: string[];
+  /** Rename header cell, the column is dropped when null is returned */
+  mapHeader: (name: string, index: number) => string | null;
+  /** What to do with columns having the same name:
+   * `"error"` (default) throws when the header is read,
+   * `"suffix"` renames them to `name_2`, `name_3` and so on,
+   * `"array"` collects their values in array
+   */
+  duplicateHeaders: "error" | "suffix" | "array";
+  /** Key of extra cells with `columnCount: "rest"`, `"_rest"` by default */
+  restKey: string;
+}
+
+/** Machine-readable reason of `CSVParseError` */
+export type CSVParseErrorCode =
+  /** Quote inside of unquoted cell */
+  | "UNEXPECTED_QUOTE"
+  /** Quoted cell isn't closed till the end of input */
+  | "UNTERMINATED_QUOTE"
+  /** Closing quote isn't followed by separator */
+  | "INVALID_AFTER_QUOTE"
+  /** Empty line with `emptyLines: "error"` */
+  | "EMPTY_LINE"
+  /** Number of cells differs from the header with `columnCount: "strict"` */
+  | "COLUMN_COUNT"
+  /** Cell is longer than `maxCellBytes` */
+  | "MAX_CELL_BYTES"
+  /** Record has more cells than `maxColumns` */
+  | "MAX_COLUMNS"
+  /** Record is longer than `maxRecordBytes` */
+  | "MAX_RECORD_BYTES"
+  /** Input has more records than `maxRecords` */
+  | "MAX_RECORDS"
+  /** Parser reached unexpected state */
+  | "UNEXPECTED";
+
+/** Error thrown when input isn't valid CSV */
+export class CSVParseError extends Error {
+  /** Reason of the error */
+  code: CSVParseErrorCode;
+  /** Line of the error, starting from 1 */
+  line: number;
+  /** Byte in the line, starting from 1 */
+  column: number;
+  /** Position in bytes from the beginning of input */
+  byteOffset: number;
+  /** Input around the error */
+  snippet: string;
+
+  constructor(
+    code: CSVParseErrorCode,
+    message: string,
+    details: {
+      line: number;
+      column: number;
+      byteOffset: number;
+      snippet: string;
+    },
+  ) {
+    super(message);
+    this.name = "CSVParseError";
+    this.code = code;
+    this.line = details.line;
+    this.column = details.column;
+    this.byteOffset = details.byteOffset;
+    this.snippet = details.snippet;
+  }
+}
+
+/** Position of the parsed cell */
+export interface CSVCellInfo {
+  /** Line where the cell starts, starting from 1 */
+  line: number;
+  /** Character in the line where the cell starts, starting from 1 */
+  character: number;
+  /** Whether the cell is quoted, so empty quoted cell could be told from missing value */
+  quoted: boolean;
 }
 
 /** Options for CSVReader class */
 export interface CSVReaderOptions extends CommonCSVReaderOptions {
-  onCell(cell: string): void;
-  onRowEnd(): void;
+  /** Number of cells for `columnCount` option when the first record isn't the header */
+  expectedColumnCount?: number;
+  onCell(cell: string, info: CSVCellInfo): void;
+  onRowEnd(info: CSVRecordInfo): void;
   onEnd(): void;
   onError(err: Error): void;
 }
@@ -29,6 +268,7 @@ interface HiddenCSVReaderOptions extends CSVReaderOptions {
   _columnBufferMinStepSize: number;
   _inputBufferIndexLimit: number;
   _columnBufferReserve: number;
+  _autoDetectSampleSize: number;
   _stats: {
     reads: number;
     inputBufferShrinks: number;
@@ -36,10 +276,36 @@ interface HiddenCSVReaderOptions extends CSVReaderOptions {
   };
 }
 
+// passed to onCell when the reader is created without cell info
+const noCellInfo: CSVCellInfo = { line: 0, character: 0, quoted: false };
+
 // deno-lint-ignore no-explicit-any
 function noop(_?: any): any {}
 
-const utfBom = new Uint8Array([0xef, 0xbb, 0xbf]);
+const gzipMagic = new Uint8Array([0x1f, 0x8b]);
+
+// byte order marks and encodings they define
+const boms = [
+  { encoding: "utf-8", bytes: new Uint8Array([0xef, 0xbb, 0xbf]) },
+  { encoding: "utf-16le", bytes: new Uint8Array([0xff, 0xfe]) },
+  { encoding: "utf-16be", bytes: new Uint8Array([0xfe, 0xff]) },
+];
+
+function cellValue(
+  cell: string,
+  info: CSVCellInfo,
+  nullValue: string | undefined,
+): string | null {
+  return !info.quoted && cell === nullValue ? null : cell;
+}
+
+function isTrimmable(codeUnit: number) {
+  // space or tab
+  return codeUnit === 32 || codeUnit === 9;
+}
+
+// bytes of input around the error included in CSVParseError
+const snippetRadius = 20;
 
 const defaultCSVReaderOptions: HiddenCSVReaderOptions = {
   columnSeparator: ",",
@@ -53,6 +319,7 @@ const defaultCSVReaderOptions: HiddenCSVReaderOptions = {
   _columnBufferMinStepSize: 1024,
   _inputBufferIndexLimit: 1024,
   _columnBufferReserve: 64,
+  _autoDetectSampleSize: 64 * 1024,
   _stats: {
     reads: 0,
     inputBufferShrinks: 0,
@@ -83,9 +350,15 @@ const defaultCSVReaderOptions: HiddenCSVReaderOptions = {
  *       reader.read();
  */
 export class CSVReader {
-  private decoder: TextDecoder;
-  private onCell: (cell: string) => void;
-  private onRowEnd: () => void;
+  private decoder!: TextDecoder;
+  private encoding!: string;
+  private codeUnitSize!: number;
+  private detectBom: boolean;
+  private detectCompression: boolean;
+  private onCell: (cell: string, info: CSVCellInfo) => void;
+  private cellInfo: boolean;
+  private cellsFiltered: boolean;
+  private onRowEnd: (info: CSVRecordInfo) => void;
   private onEnd: () => void;
   private onError: (err: Error) => void;
   private inputBufferIndexLimit: number;
@@ -94,14 +367,51 @@ export class CSVReader {
     inputBufferShrinks: number;
     columnBufferExpands: number;
   };
-  private columnSeparator: Uint8Array;
-  private lineSeparator: Uint8Array;
-  private quote: Uint8Array;
-  private doubleQuote: Uint8Array;
-  private minPossibleBufferReserve: number;
-  private columnBufferReserve: number;
-  private columnBufferStepSize: number;
-  private readerIterator: AsyncIterableIterator<Uint8Array>;
+  private dialect!: {
+    columnSeparator: string | Uint8Array;
+    lineSeparator: string | Uint8Array;
+    quote: string | Uint8Array;
+  };
+  private columnSeparator!: Uint8Array;
+  private lineSeparator!: Uint8Array;
+  private universalNewline!: boolean;
+  private quote!: Uint8Array;
+  private doubleQuote!: Uint8Array;
+  private escapeOption?: string | Uint8Array;
+  private escape?: Uint8Array;
+  private commentOption?: string | Uint8Array;
+  private comment?: Uint8Array;
+  private onComment: (
+    comment: string,
+    info: Omit<CSVCellInfo, "quoted">,
+  ) => void;
+  private commentChunks?: Uint8Array[];
+  private emptyLines: "skip" | "emit" | "error";
+  private skipBlankRecords: boolean;
+  private blankRecord: boolean;
+  private blankCells: Array<{ cell: string; info: CSVCellInfo }>;
+  private trimLeft: boolean;
+  private trimRight: boolean;
+  private trimAroundQuotes: boolean;
+  private afterClosingQuote: boolean;
+  private trimmedBeforeColumn: boolean;
+  private columnCount?: "strict" | "pad" | "truncate" | "rest";
+  private padValue: string;
+  private expectedColumnCount?: number;
+  private cellsInRecord: number;
+  private limited: boolean;
+  private maxCellBytes: number;
+  private maxColumns: number;
+  private maxRecordBytes: number;
+  private maxRecords: number;
+  private minPossibleBufferReserve!: number;
+  private columnBufferReserve!: number;
+  private columnBufferStepSize!: number;
+  private columnBufferMinReserve: number;
+  private columnBufferMinStepSize: number;
+  private autoDetect: boolean;
+  private autoDetectSampleSize: number;
+  private readerIterator: AsyncIterator<Uint8Array>;
   private inputBuffer: Uint8Array;
   private inputBufferIndex: number;
   private columnBuffer: Uint8Array;
@@ -109,6 +419,7 @@ export class CSVReader {
   private readerEmpty: boolean;
   private emptyLine: boolean;
   private inQuote: boolean;
+  private columnQuoted: boolean;
   private inColumn: boolean;
   private inputBufferUnprocessed: number;
   private paused: boolean;
@@ -116,63 +427,165 @@ export class CSVReader {
   private currentPos: number;
   private linesProcessed: number;
   private lastLineStartPos: number;
+  private columnStartPos: number;
+  private columnStartLine: number;
+  private columnStartLineStartPos: number;
   private fromLine: number;
   private toLine: number;
-
-  constructor(reader: Reader, options?: Partial<CSVReaderOptions>) {
-    this.decoder = new TextDecoder(options?.encoding);
+  private fromRecord: number;
+  private toRecord: number;
+  private fromByte: number;
+  private toByte: number;
+  private errorMode: "throw" | "skip" | "collect";
+  private onInvalidRecord: (record: CSVInvalidRecord) => void;
+  private invalidRecordError?: CSVParseError;
+  private recordStartPos: number;
+  private recordStartLine: number;
+  private recordsProcessed: number;
+  private lastCheckpoint: CSVCheckpoint;
+  private seekTo?: { seeker: Seeker; offset: number };
+  private signal?: AbortSignal;
+  private abortListener: () => void;
+  private abortReason?: Error;
+  private cancelled: boolean;
+
+  /** `cellInfo: false` is for callers which don't read the info of cells,
+   * they get the same placeholder instead of a new object for every cell
+   */
+  constructor(
+    reader: CSVReaderSource,
+    options?: Partial<CSVReaderOptions>,
+    cellInfo = true,
+  ) {
+    this.setEncoding(options?.encoding);
     const mergedOptions: HiddenCSVReaderOptions = {
       ...defaultCSVReaderOptions,
       ...options,
     };
     this.fromLine = mergedOptions.fromLine || 0;
     this.toLine = mergedOptions.toLine || Number.MAX_VALUE;
+    this.fromRecord = mergedOptions.fromRecord || 0;
+    this.toRecord = mergedOptions.toRecord ?? Number.MAX_VALUE;
+    this.fromByte = mergedOptions.fromByte || 0;
+    this.toByte = mergedOptions.toByte ?? Number.MAX_VALUE;
     this.onCell = mergedOptions.onCell || noop;
+    this.cellInfo = cellInfo;
     this.onRowEnd = mergedOptions.onRowEnd || noop;
     this.onEnd = mergedOptions.onEnd || noop;
     this.onError = mergedOptions.onError || noop;
+    this.errorMode = mergedOptions.errorMode || "throw";
+    this.onInvalidRecord = mergedOptions.onInvalidRecord || noop;
     this.inputBufferIndexLimit = mergedOptions._inputBufferIndexLimit;
     this.stats = mergedOptions._stats;
-    this.quote = getUint8Array(mergedOptions.quote);
-    this.columnSeparator = getUint8Array(mergedOptions.columnSeparator);
-    this.lineSeparator = getUint8Array(mergedOptions.lineSeparator);
-    this.doubleQuote = repeat(this.quote, 2);
-
-    this.minPossibleBufferReserve = Math.max(
-      this.columnSeparator.length,
-      this.lineSeparator.length,
-      this.doubleQuote.length,
-      1,
+    this.columnBufferMinStepSize = mergedOptions._columnBufferMinStepSize;
+    this.columnBufferMinReserve = mergedOptions._columnBufferReserve;
+    this.commentOption = mergedOptions.comment || undefined;
+    this.escapeOption = mergedOptions.escape || undefined;
+    this.onComment = mergedOptions.onComment || noop;
+    this.emptyLines = mergedOptions.emptyLines || "skip";
+    this.skipBlankRecords = !!mergedOptions.skipBlankRecords;
+    this.blankRecord = true;
+    this.blankCells = [];
+    const trim = mergedOptions.trim || "none";
+    this.trimLeft = trim === "left" || trim === "both";
+    this.trimRight = trim === "right" || trim === "both";
+    this.trimAroundQuotes = !!mergedOptions.trimAroundQuotes;
+    this.afterClosingQuote = false;
+    this.trimmedBeforeColumn = false;
+    this.columnCount = mergedOptions.columnCount;
+    this.padValue = mergedOptions.padValue ?? "";
+    this.expectedColumnCount = mergedOptions.expectedColumnCount;
+    this.cellsInRecord = 0;
+    // cells could be dropped or held back only with these options
+    this.cellsFiltered = this.fromRecord > 0 || this.fromByte > 0 ||
+      this.skipBlankRecords || this.columnCount === "truncate";
+    this.maxCellBytes = mergedOptions.maxCellBytes ?? Number.MAX_VALUE;
+    this.maxColumns = mergedOptions.maxColumns ?? Number.MAX_VALUE;
+    this.maxRecordBytes = mergedOptions.maxRecordBytes ?? Number.MAX_VALUE;
+    this.maxRecords = mergedOptions.maxRecords ?? Number.MAX_VALUE;
+    this.limited = mergedOptions.maxCellBytes !== undefined ||
+      mergedOptions.maxRecordBytes !== undefined ||
+      mergedOptions.maxRecords !== undefined;
+    this.setSeparators(
+      mergedOptions.columnSeparator,
+      mergedOptions.lineSeparator,
+      mergedOptions.quote,
     );
-    this.columnBufferStepSize = Math.max(
-      mergedOptions._columnBufferMinStepSize,
-      this.minPossibleBufferReserve,
-    );
-    this.columnBufferReserve = Math.max(
-      mergedOptions._columnBufferReserve,
-      this.minPossibleBufferReserve,
-    );
-
-    this.readerIterator = iterateReader(reader, {
-      bufSize: mergedOptions._readerIteratorBufferSize,
-    });
-
-    this.inputBuffer = new Uint8Array();
+    this.autoDetect = !!mergedOptions.autoDetect;
+    this.autoDetectSampleSize = mergedOptions._autoDetectSampleSize;
+
+    const resumeFrom = mergedOptions.resumeFrom;
+    const compression = mergedOptions.compression;
+    // even "auto" couldn't detect compression in the middle of input
+    if (resumeFrom && compression) {
+      throw new TypeError("resumeFrom doesn't support compressed input");
+    }
+    if (reader instanceof Uint8Array) {
+      this.readerIterator = emptyIterator();
+      this.inputBuffer = resumeFrom
+        ? reader.subarray(resumeFrom.byteOffset)
+        : reader;
+      this.inputBufferUnprocessed = this.inputBuffer.length;
+      this.readerEmpty = true;
+    } else {
+      if (resumeFrom) {
+        if (
+          reader instanceof ReadableStream ||
+          typeof (reader as Partial<Seeker>).seek !== "function"
+        ) {
+          throw new TypeError("resumeFrom requires seekable reader");
+        }
+        // iterateReader doesn't read till the first next(), so seek in parseCycle
+        this.seekTo = {
+          seeker: reader as Reader & Seeker,
+          offset: resumeFrom.byteOffset,
+        };
+      }
+      this.readerIterator = reader instanceof ReadableStream
+        ? streamIterator(reader)
+        : iterateReader(reader, {
+          bufSize: mergedOptions._readerIteratorBufferSize,
+        });
+      this.inputBuffer = new Uint8Array();
+      this.inputBufferUnprocessed = 0;
+      this.readerEmpty = false;
+    }
     this.inputBufferIndex = 0;
+    if (compression && compression !== "auto") {
+      this.decompress(compression);
+    }
 
     this.columnBuffer = new Uint8Array(this.columnBufferStepSize);
     this.columnBufferIndex = 0;
 
-    this.readerEmpty = false;
     this.emptyLine = true;
     this.inQuote = false;
+    this.columnQuoted = false;
     this.inColumn = false;
-    this.inputBufferUnprocessed = 0;
     this.paused = true;
+    this.cancelled = false;
+
+    this.currentPos = resumeFrom?.byteOffset || 0;
+    this.detectBom = this.currentPos === 0;
+    this.detectCompression = compression === "auto" && this.currentPos === 0;
+    this.linesProcessed = resumeFrom ? resumeFrom.line - 1 : 0;
+    this.lastLineStartPos = this.currentPos;
+    this.recordsProcessed = resumeFrom?.record || 0;
+    this.columnStartPos = 0;
+    this.columnStartLine = 0;
+    this.columnStartLineStartPos = 0;
+    this.recordStartPos = 0;
+    this.recordStartLine = 0;
+    this.markRecordStart();
+    this.lastCheckpoint = {
+      byteOffset: this.currentPos,
+      line: this.linesProcessed + 1,
+      record: this.recordsProcessed,
+    };
 
-    this.currentPos = 0;
-    this.linesProcessed = 0;
-    this.lastLineStartPos = 0;
+    this.signal = mergedOptions.signal;
+    this.abortListener = () => this.abort();
+    this.signal?.addEventListener("abort", this.abortListener);
 
     const logger: Logger = getLogger("csv");
     if (logger.levelName === "DEBUG") {
@@ -182,7 +595,120 @@ export class CSVReader {
     }
   }
 
+  private setEncoding(encoding?: string) {
+    this.decoder = new TextDecoder(encoding);
+    // TextDecoder normalizes labels like "unicode" or "latin1"
+    this.encoding = this.decoder.encoding;
+    this.codeUnitSize =
+      this.encoding === "utf-16le" || this.encoding === "utf-16be" ? 2 : 1;
+  }
+
+  /** Reads the rest of input including buffered bytes through `DecompressionStream` */
+  private decompress(format: CompressionFormat) {
+    const source = this.readerIterator;
+    const head = this.inputBuffer.subarray(this.inputBufferIndex);
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (head.length > 0) {
+          controller.enqueue(head);
+        }
+      },
+      async pull(controller) {
+        const { done, value } = await source.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      async cancel(reason) {
+        await source.return?.(reason);
+      },
+    });
+    this.readerIterator = streamIterator(
+      stream.pipeThrough(new DecompressionStream(format)),
+    );
+    this.inputBuffer = new Uint8Array();
+    this.inputBufferIndex = 0;
+    this.inputBufferUnprocessed = 0;
+    this.readerEmpty = false;
+  }
+
+  private setSeparators(
+    columnSeparator: string | Uint8Array,
+    lineSeparator: string | Uint8Array,
+    quote: string | Uint8Array,
+  ) {
+    // separators are encoded again when BOM changes the encoding
+    this.dialect = { columnSeparator, lineSeparator, quote };
+    this.quote = getUint8Array(quote, this.encoding);
+    this.columnSeparator = getUint8Array(columnSeparator, this.encoding);
+    this.universalNewline = lineSeparator === "auto";
+    // halves of "\r\n" are accepted as well, see matchLineSeparator
+    this.lineSeparator = getUint8Array(
+      this.universalNewline ? "\r\n" : lineSeparator,
+      this.encoding,
+    );
+    this.doubleQuote = repeat(this.quote, 2);
+    this.comment = this.commentOption
+      ? getUint8Array(this.commentOption, this.encoding)
+      : undefined;
+    const escape = this.escapeOption
+      ? getUint8Array(this.escapeOption, this.encoding)
+      : undefined;
+    // quote could be detected, so escape is checked here
+    this.escape = escape &&
+        !(escape.length === this.quote.length &&
+          hasPrefixFrom(escape, this.quote, 0))
+      ? escape
+      : undefined;
+
+    this.minPossibleBufferReserve = Math.max(
+      this.columnSeparator.length,
+      this.lineSeparator.length,
+      this.doubleQuote.length,
+      this.comment?.length || 0,
+      this.escape?.length || 0,
+      this.codeUnitSize,
+    );
+    this.columnBufferStepSize = Math.max(
+      this.columnBufferMinStepSize,
+      this.minPossibleBufferReserve,
+    );
+    this.columnBufferReserve = Math.max(
+      this.columnBufferMinReserve,
+      this.minPossibleBufferReserve,
+    );
+  }
+
+  private detectDialect() {
+    const dialect = sniffCSVDialect(
+      this.inputBuffer.subarray(0, this.autoDetectSampleSize),
+      { partial: !this.readerEmpty, encoding: this.encoding },
+    );
+    this.debug(
+      `detected dialect: ${JSON.stringify(dialect)}`,
+    );
+    this.setSeparators(
+      dialect.columnSeparator,
+      dialect.lineSeparator,
+      dialect.quote,
+    );
+  }
+
   public read() {
+    if (this.cancelled) {
+      return;
+    }
+    if (this.abortReason) {
+      this.onError(this.abortReason);
+      return;
+    }
+    // the listener isn't called when the signal is aborted before reading
+    if (this.signal?.aborted) {
+      this.abort();
+      return;
+    }
     if (this.paused) {
       this.paused = false;
       this.parseCycle();
@@ -193,22 +719,312 @@ export class CSVReader {
     this.paused = true;
   }
 
+  /** Stop reading and release the source, callbacks aren't called after that,
+   * `reason` is passed to `cancel` of the source stream
+   */
+  public async cancel(reason?: unknown): Promise<void> {
+    if (this.cancelled) {
+      return;
+    }
+    this.debug("cancel");
+    this.cancelled = true;
+    this.paused = true;
+    this.signal?.removeEventListener("abort", this.abortListener);
+    await this.readerIterator.return?.(reason);
+  }
+
+  /** Position after the last parsed record, could be passed to `resumeFrom` option */
+  public checkpoint(): CSVCheckpoint {
+    return { ...this.lastCheckpoint };
+  }
+
+  private end() {
+    this.signal?.removeEventListener("abort", this.abortListener);
+    this.onEnd();
+  }
+
+  private fail(err: Error) {
+    this.signal?.removeEventListener("abort", this.abortListener);
+    // release the source, so piped web streams are cancelled as well
+    this.readerIterator.return?.();
+    this.onError(err);
+  }
+
+  private abort() {
+    const reason = this.signal!.reason;
+    this.debug("abort");
+    this.abortReason = reason instanceof Error
+      ? reason
+      : new Error("CSV reading is aborted", { cause: reason });
+    this.paused = true;
+    // the reader could be referenced after abort, so buffers are dropped
+    this.inputBuffer = new Uint8Array();
+    this.inputBufferIndex = 0;
+    this.inputBufferUnprocessed = 0;
+    this.columnBuffer = new Uint8Array();
+    this.columnBufferIndex = 0;
+    this.blankCells = [];
+    this.commentChunks = undefined;
+    this.fail(this.abortReason);
+  }
+
+  /** Returns false when reading is stopped */
+  private failRecord(err: CSVParseError): boolean {
+    if (this.errorMode === "throw") {
+      this.fail(err);
+      return false;
+    }
+    this.debug(`invalid record: ${err.message}`);
+    this.invalidRecordError = err;
+    return true;
+  }
+
+  private dropInvalidRecord() {
+    const error = this.invalidRecordError!;
+    const recordLength = this.currentPos - this.recordStartPos;
+    const raw = this.inputBuffer.slice(
+      this.inputBufferIndex - recordLength,
+      this.inputBufferIndex,
+    );
+    this.invalidRecordError = undefined;
+    this.recordsProcessed++;
+    this.inQuote = false;
+    this.inColumn = false;
+    this.columnBufferIndex = 0;
+    this.emptyLine = true;
+    this.onInvalidRecord({
+      error,
+      raw,
+      line: this.recordStartLine + 1,
+      byteOffset: this.recordStartPos,
+    });
+  }
+
+  /** Records before fromRecord and fromByte are parsed, but not emitted */
+  private isRecordSkipped() {
+    return this.recordsProcessed < this.fromRecord ||
+      this.recordStartPos < this.fromByte;
+  }
+
   private processColumn() {
+    this.cellsInRecord++;
+    // cells of skipped records are still decoded to know if the record is blank
+    if (
+      this.cellsFiltered &&
+      ((this.isRecordSkipped() && !this.skipBlankRecords) ||
+        (this.columnCount === "truncate" &&
+          this.expectedColumnCount !== undefined &&
+          this.cellsInRecord > this.expectedColumnCount))
+    ) {
+      this.columnBufferIndex = 0;
+      return;
+    }
     const result = this.decoder.decode(
       this.columnBuffer.subarray(0, this.columnBufferIndex),
     );
     this.columnBufferIndex = 0;
-    this.onCell(result);
+    const info = this.cellInfo
+      ? {
+        line: this.columnStartLine + 1,
+        character: this.columnStartPos - this.columnStartLineStartPos + 1,
+        quoted: this.columnQuoted,
+      }
+      : noCellInfo;
+    if (this.cellsFiltered) {
+      this.emitCell(result, info);
+    } else {
+      this.onCell(result, info);
+    }
+  }
+
+  private emitCell(result: string, info: CSVCellInfo) {
+    if (this.skipBlankRecords && this.blankRecord) {
+      // blank cells are held back until the record turns out to be not blank
+      if (result.trim() === "") {
+        this.blankCells.push({ cell: result, info });
+        return;
+      }
+      this.blankRecord = false;
+      if (!this.isRecordSkipped()) {
+        for (const { cell, info } of this.blankCells) {
+          this.onCell(cell, info);
+        }
+      }
+      this.blankCells = [];
+    }
+
+    if (!this.isRecordSkipped()) {
+      this.onCell(result, info);
+    }
+  }
+
+  private markColumnStart() {
+    this.columnQuoted = false;
+    this.trimmedBeforeColumn = false;
+    this.columnStartPos = this.currentPos;
+    this.columnStartLine = this.linesProcessed;
+    this.columnStartLineStartPos = this.lastLineStartPos;
+  }
+
+  private markRecordStart() {
+    this.markColumnStart();
+    this.recordStartPos = this.currentPos;
+    this.recordStartLine = this.linesProcessed;
+    this.blankRecord = true;
+    if (this.blankCells.length > 0) {
+      this.blankCells = [];
+    }
+    this.cellsInRecord = 0;
+  }
+
+  /** Applies `columnCount` to the ended record, returns false when it is malformed */
+  private fitColumnCount(): boolean {
+    if (!this.columnCount || (this.skipBlankRecords && this.blankRecord)) {
+      return true;
+    }
+    if (this.expectedColumnCount === undefined) {
+      this.expectedColumnCount = this.cellsInRecord;
+      return true;
+    }
+    if (
+      this.columnCount === "strict" &&
+      this.cellsInRecord !== this.expectedColumnCount
+    ) {
+      return false;
+    }
+    if (this.columnCount === "pad") {
+      const info = {
+        line: this.linesProcessed + 1,
+        character: this.currentPos - this.lastLineStartPos + 1,
+        quoted: false,
+      };
+      for (let i = this.cellsInRecord; i < this.expectedColumnCount; i++) {
+        this.emitCell(this.padValue, info);
+      }
+    }
+    return true;
+  }
+
+  private columnCountError(): CSVParseError {
+    return this.parseError(
+      "COLUMN_COUNT",
+      `Expected ${this.expectedColumnCount} cells, received ${this.cellsInRecord}`,
+    );
+  }
+
+  private processRow(lineSeparatorLength = 0) {
+    // blank records are dropped like empty lines, so they don't get an index
+    const blank = this.skipBlankRecords && this.blankRecord;
+    this.lastCheckpoint = {
+      byteOffset: this.currentPos + lineSeparatorLength,
+      line: this.linesProcessed + (lineSeparatorLength > 0 ? 2 : 1),
+      record: this.recordsProcessed + (blank ? 0 : 1),
+    };
+    if (blank) {
+      return;
+    }
+    if (this.isRecordSkipped()) {
+      this.recordsProcessed++;
+      return;
+    }
+    this.onRowEnd({
+      record: this.recordsProcessed++,
+      startLine: this.recordStartLine + 1,
+      endLine: this.linesProcessed + 1,
+      startByte: this.recordStartPos,
+      endByte: this.currentPos,
+    });
+  }
+
+  /** Code unit of the input encoding at `index`, the byte for UTF-8 */
+  private codeUnitAt(a: Uint8Array, index: number): number {
+    if (this.codeUnitSize === 1) {
+      return a[index];
+    }
+    return this.encoding === "utf-16be"
+      ? (a[index] << 8) | a[index + 1]
+      : a[index] | (a[index + 1] << 8);
+  }
+
+  /** Space or tab which isn't the beginning of column separator */
+  private nextIsTrimmable() {
+    return isTrimmable(
+      this.codeUnitAt(this.inputBuffer, this.inputBufferIndex),
+    ) &&
+      !this.hasNext(this.columnSeparator);
   }
 
-  private processRow() {
-    this.onRowEnd();
+  private isColumnBlank() {
+    for (let i = 0; i < this.columnBufferIndex; i += this.codeUnitSize) {
+      if (!isTrimmable(this.codeUnitAt(this.columnBuffer, i))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /** Checks that closing quote is followed by separator, returns false when reading stops */
+  private checkAfterClosingQuote(): boolean {
+    if (
+      this.inputBufferUnprocessed === 0 ||
+      this.nextLineSeparatorLength() > 0 ||
+      this.hasNext(this.columnSeparator)
+    ) {
+      return true;
+    }
+    const charCode = this.codeUnitAt(this.inputBuffer, this.inputBufferIndex);
+    const char = charCode === 13 ? "\\r" : String.fromCharCode(charCode);
+    const hint = charCode === 13 && !this.universalNewline
+      ? '\nPerhaps you need to add the setting lineSeparator: "\\r\\n"\nhttps://git.io/JDTDS'
+      : "";
+    const err = this.parseError(
+      "INVALID_AFTER_QUOTE",
+      `Expected EOF, COLUMN_SEPARATOR, LINE_SEPARATOR; received ${char}`,
+      hint,
+    );
+    return this.failRecord(err);
+  }
+
+  /** Error when the input exceeds limits, maxColumns is checked by column separator */
+  private exceededLimit(): CSVParseError | undefined {
+    if (this.columnBufferIndex > this.maxCellBytes) {
+      return this.parseError(
+        "MAX_CELL_BYTES",
+        `Cell is longer than ${this.maxCellBytes} bytes`,
+      );
+    }
+    if (
+      this.currentPos - this.recordStartPos > this.maxRecordBytes &&
+      this.linesProcessed >= this.fromLine
+    ) {
+      return this.parseError(
+        "MAX_RECORD_BYTES",
+        `Record is longer than ${this.maxRecordBytes} bytes`,
+      );
+    }
+    // the record is started, but isn't counted yet
+    if (!this.emptyLine && this.recordsProcessed >= this.maxRecords) {
+      return this.parseError(
+        "MAX_RECORDS",
+        `Input has more than ${this.maxRecords} records`,
+      );
+    }
+    return undefined;
   }
 
   private hasNext(chars: Uint8Array) {
     return hasPrefixFrom(this.inputBuffer, chars, this.inputBufferIndex);
   }
 
+  private nextLineSeparatorLength() {
+    return matchLineSeparator(
+      this.inputBuffer,
+      this.inputBufferIndex,
+      this.lineSeparator,
+      this.universalNewline,
+    );
+  }
+
   private skip(length: number) {
     this.debug(`skip: ${length}`);
     this.inputBufferIndex += length;
@@ -216,12 +1032,46 @@ export class CSVReader {
     this.currentPos += length;
   }
 
+  private shrinkableLength() {
+    if (this.errorMode === "throw") {
+      return this.inputBufferIndex;
+    }
+    // keep the current record to report it if it is malformed
+    return this.inputBufferIndex - (this.currentPos - this.recordStartPos);
+  }
+
   private shrinkInputBuffer() {
     this.stats.inputBufferShrinks++;
     this.debug("shrink input buffer");
-    this.inputBuffer = this.inputBuffer.slice(this.inputBufferIndex);
-    this.inputBufferIndex = 0;
-    this.inputBufferUnprocessed = this.inputBuffer.length;
+    // readMoreData copies the rest anyway, so no need to copy it here
+    const length = this.shrinkableLength();
+    this.inputBuffer = this.inputBuffer.subarray(length);
+    this.inputBufferIndex -= length;
+    this.inputBufferUnprocessed = this.inputBuffer.length -
+      this.inputBufferIndex;
+  }
+
+  /** Skips till the next line separator, returns false when more data is needed */
+  private skipTillLineSeparator(): boolean {
+    const slice = this.inputBuffer.subarray(this.inputBufferIndex);
+    const index = findReadTillLineSeparatorIndex(
+      slice,
+      this.lineSeparator,
+      this.universalNewline,
+      this.codeUnitSize,
+    );
+    // keep the tail which could be the beginning of line separator
+    const tail = this.readerEmpty
+      ? 0
+      : this.lineSeparator.length - this.codeUnitSize;
+    if (index === null || index >= slice.length - tail) {
+      const end = slice.length - tail;
+      // code units aren't split between reads
+      this.skip(Math.max(index ?? end - end % this.codeUnitSize, 0));
+      return this.readerEmpty;
+    }
+    this.skip(index);
+    return true;
   }
 
   private readChars(n: number) {
@@ -241,7 +1091,21 @@ export class CSVReader {
   private async readMoreData() {
     this.stats.reads++;
     this.debug("read more data");
-    const { done, value } = await this.readerIterator.next();
+    let result: IteratorResult<Uint8Array>;
+    try {
+      result = await this.readerIterator.next();
+    } catch (err) {
+      // errors of the source, like corrupted compressed data, stop reading
+      if (!this.abortReason && !this.cancelled) {
+        this.paused = true;
+        this.fail(err as Error);
+      }
+      return;
+    }
+    if (this.abortReason || this.cancelled) {
+      return;
+    }
+    const { done, value } = result;
     if (done) {
       this.readerEmpty = true;
     } else {
@@ -274,11 +1138,25 @@ export class CSVReader {
     this.lastLineStartPos = lastLineStartPos;
   }
 
-  private getCurrentPos() {
+  private parseError(
+    code: CSVParseErrorCode,
+    reason: string,
+    hint = "",
+  ): CSVParseError {
     const line = this.linesProcessed + 1;
-    const ch = this.currentPos - this.lastLineStartPos + 1;
+    const column = this.currentPos - this.lastLineStartPos + 1;
+    const snippet = this.decoder.decode(
+      this.inputBuffer.subarray(
+        Math.max(this.inputBufferIndex - snippetRadius, 0),
+        this.inputBufferIndex + snippetRadius,
+      ),
+    );
 
-    return `line ${line}, character ${ch}`;
+    return new CSVParseError(
+      code,
+      `${reason} (line ${line}, character ${column})${hint}`,
+      { line, column, byteOffset: this.currentPos, snippet },
+    );
   }
 
   private async parseCycle() {
@@ -287,6 +1165,72 @@ export class CSVReader {
         return;
       }
 
+      if (this.seekTo) {
+        const { seeker, offset } = this.seekTo;
+        this.seekTo = undefined;
+        try {
+          await seeker.seek(offset, SeekMode.Start);
+        } catch (err) {
+          this.fail(err as Error);
+          return;
+        }
+        continue;
+      }
+
+      // compressed input is detected before its BOM
+      if (this.detectCompression) {
+        if (
+          !this.readerEmpty && this.inputBuffer.length < gzipMagic.length
+        ) {
+          await this.readMoreData();
+          continue;
+        }
+        this.detectCompression = false;
+        if (this.hasNext(gzipMagic)) {
+          this.debug("gzip");
+          this.decompress("gzip");
+        }
+        continue;
+      }
+
+      // BOM defines encoding, so it is checked before dialect
+      if (this.detectBom) {
+        if (
+          !this.readerEmpty && this.inputBuffer.length < boms[0].bytes.length
+        ) {
+          await this.readMoreData();
+          continue;
+        }
+        this.detectBom = false;
+        const bom = boms.find(({ bytes }) => this.hasNext(bytes));
+        if (bom) {
+          this.debug(`bom: ${bom.encoding}`);
+          this.setEncoding(bom.encoding);
+          this.setSeparators(
+            this.dialect.columnSeparator,
+            this.dialect.lineSeparator,
+            this.dialect.quote,
+          );
+          this.skip(bom.bytes.length);
+          this.markRecordStart();
+        }
+        continue;
+      }
+
+      // buffer the sample before parsing to detect dialect
+      if (this.autoDetect) {
+        if (
+          !this.readerEmpty &&
+          this.inputBuffer.length < this.autoDetectSampleSize
+        ) {
+          await this.readMoreData();
+          continue;
+        }
+        this.autoDetect = false;
+        this.detectDialect();
+        continue;
+      }
+
       // lacks of data
       if (
         !this.readerEmpty &&
@@ -298,7 +1242,7 @@ export class CSVReader {
       }
 
       // buffer could be emptied
-      if (this.inputBufferIndex >= this.inputBufferIndexLimit) {
+      if (this.shrinkableLength() >= this.inputBufferIndexLimit) {
         this.shrinkInputBuffer();
         continue;
       }
@@ -312,16 +1256,43 @@ export class CSVReader {
         continue;
       }
 
+      // limits protect from unbounded buffers, so they stop reading even in errorMode "skip"
+      if (this.limited) {
+        const err = this.exceededLimit();
+        if (err) {
+          this.fail(err);
+          return;
+        }
+      }
+
+      // skip the rest of malformed record and continue from the next line
+      if (this.invalidRecordError) {
+        if (!this.skipTillLineSeparator()) {
+          continue;
+        }
+        this.dropInvalidRecord();
+        const lineSeparatorLength = this.nextLineSeparatorLength();
+        if (lineSeparatorLength > 0) {
+          this.skip(lineSeparatorLength);
+          this.countLine();
+        }
+        this.markRecordStart();
+        this.lastCheckpoint = {
+          byteOffset: this.currentPos,
+          line: this.linesProcessed + 1,
+          record: this.recordsProcessed,
+        };
+        continue;
+      }
+
       // skip line if it didn't reach fromLine
       if (!this.inColumn && this.linesProcessed < this.fromLine) {
-        const slice = this.inputBuffer.subarray(this.inputBufferIndex);
-        const index = findReadTillLineSeparatorIndex(slice, this.lineSeparator);
-        if (index === null) {
-          this.skip(slice.length);
+        if (!this.skipTillLineSeparator()) {
           continue;
         }
-        this.skip(index + this.lineSeparator.length);
+        this.skip(this.nextLineSeparatorLength());
         this.countLine();
+        this.markRecordStart();
         this.emptyLine = true;
         continue;
       }
@@ -330,13 +1301,75 @@ export class CSVReader {
       // stop reading if toLine is reached
       if (!this.inColumn && this.linesProcessed >= this.toLine) {
         this.debug("eof");
-        this.onEnd();
+        this.end();
         return;
       }
 
-      // skip UTF BOM
-      if (!this.inColumn && this.currentPos === 0 && this.hasNext(utfBom)) {
-        this.skip(utfBom.length);
+      // stop reading at the record boundary if toRecord or toByte is reached
+      if (
+        !this.inColumn &&
+        this.emptyLine &&
+        (this.recordsProcessed >= this.toRecord ||
+          this.recordStartPos >= this.toByte)
+      ) {
+        this.debug("eof");
+        this.end();
+        return;
+      }
+
+      // the rest of comment line
+      if (this.commentChunks) {
+        const start = this.inputBufferIndex;
+        const found = this.skipTillLineSeparator();
+        this.commentChunks.push(
+          this.inputBuffer.slice(start, this.inputBufferIndex),
+        );
+        // the whole comment could be skipped at once, so the limit is checked here as well
+        if (this.limited) {
+          const err = this.exceededLimit();
+          if (err) {
+            this.fail(err);
+            return;
+          }
+        }
+        if (!found) {
+          continue;
+        }
+        this.onComment(this.decoder.decode(concat(this.commentChunks)), {
+          line: this.linesProcessed + 1,
+          character: 1,
+        });
+        this.commentChunks = undefined;
+        const lineSeparatorLength = this.nextLineSeparatorLength();
+        if (lineSeparatorLength > 0) {
+          this.skip(lineSeparatorLength);
+          this.countLine();
+        }
+        this.markRecordStart();
+        continue;
+      }
+
+      if (
+        this.comment &&
+        !this.inColumn &&
+        this.emptyLine &&
+        this.hasNext(this.comment)
+      ) {
+        this.debug("comment");
+        this.skip(this.comment.length);
+        this.commentChunks = [];
+        continue;
+      }
+
+      if (this.afterClosingQuote) {
+        if (this.inputBufferUnprocessed > 0 && this.nextIsTrimmable()) {
+          this.skip(this.codeUnitSize);
+          continue;
+        }
+        this.afterClosingQuote = false;
+        if (!this.checkAfterClosingQuote()) {
+          return;
+        }
         continue;
       }
 
@@ -344,38 +1377,86 @@ export class CSVReader {
         this.debug("eof");
         if (!this.emptyLine) {
           this.processColumn();
+          if (!this.fitColumnCount()) {
+            if (!this.failRecord(this.columnCountError())) {
+              return;
+            }
+            continue;
+          }
           this.processRow();
         }
-        this.onEnd();
+        this.end();
         return;
       }
 
-      if (!this.inColumn && this.hasNext(this.lineSeparator)) {
+      const lineSeparatorLength = this.inColumn
+        ? 0
+        : this.nextLineSeparatorLength();
+      if (lineSeparatorLength > 0) {
         this.debug("lineSeparator");
-        if (!this.emptyLine) {
+        if (this.emptyLine && this.emptyLines === "error") {
+          if (
+            !this.failRecord(this.parseError("EMPTY_LINE", "Empty line"))
+          ) {
+            return;
+          }
+          continue;
+        }
+        if (!this.emptyLine || this.emptyLines === "emit") {
           this.processColumn();
-          this.processRow();
+          if (!this.fitColumnCount()) {
+            if (!this.failRecord(this.columnCountError())) {
+              return;
+            }
+            continue;
+          }
+          this.processRow(lineSeparatorLength);
         }
-        this.skip(this.lineSeparator.length);
+        this.skip(lineSeparatorLength);
         this.countLine();
+        this.markRecordStart();
         this.emptyLine = true;
         continue;
       }
 
       if (!this.inColumn && this.hasNext(this.columnSeparator)) {
         this.debug("columnSeparator");
+        // the separator starts one more cell after the ended one
+        if (this.cellsInRecord + 2 > this.maxColumns) {
+          this.fail(
+            this.parseError(
+              "MAX_COLUMNS",
+              `Record has more than ${this.maxColumns} cells`,
+            ),
+          );
+          return;
+        }
         this.emptyLine = false;
         this.processColumn();
         this.skip(this.columnSeparator.length);
+        this.markColumnStart();
+        continue;
+      }
+
+      if (!this.inColumn && this.trimLeft && this.nextIsTrimmable()) {
+        this.emptyLine = false;
+        this.trimmedBeforeColumn = true;
+        this.skip(this.codeUnitSize);
         continue;
       }
 
       if (!this.inColumn) {
         this.inColumn = true;
         this.emptyLine = false;
-        if (this.hasNext(this.quote)) {
+        if (
+          this.hasNext(this.quote) &&
+          // trim removes spaces of unquoted cells only
+          (!this.trimmedBeforeColumn || this.trimAroundQuotes) &&
+          !(this.escape && this.hasNext(this.escape))
+        ) {
           this.debug("start quoted column");
           this.inQuote = true;
+          this.columnQuoted = true;
           this.skip(this.quote.length);
         } else {
           this.debug("start unquoted column");
@@ -383,6 +1464,38 @@ export class CSVReader {
         continue;
       }
 
+      if (this.escape && this.inColumn && this.hasNext(this.escape)) {
+        // the escaped character should be buffered
+        if (
+          !this.readerEmpty &&
+          this.inputBufferUnprocessed <
+            this.escape.length + this.minPossibleBufferReserve
+        ) {
+          await this.readMoreData();
+          continue;
+        }
+        this.debug("escape");
+        this.skip(this.escape.length);
+        const lineSeparatorLength = this.nextLineSeparatorLength();
+        const length = this.inputBufferUnprocessed === 0
+          ? 0
+          : lineSeparatorLength ||
+            [this.quote, this.columnSeparator, this.escape]
+              .find((chars) => this.hasNext(chars))?.length ||
+            this.codeUnitSize;
+        if (length === 0) {
+          // escape at the end of input is kept
+          this.columnBuffer.set(this.escape, this.columnBufferIndex);
+          this.columnBufferIndex += this.escape.length;
+          continue;
+        }
+        this.readChars(length);
+        if (lineSeparatorLength > 0) {
+          this.countLine();
+        }
+        continue;
+      }
+
       if (this.inColumn && this.inQuote && this.hasNext(this.doubleQuote)) {
         this.debug("double quote");
         this.columnBuffer.set(this.quote, this.columnBufferIndex);
@@ -392,24 +1505,25 @@ export class CSVReader {
       }
 
       if (this.inColumn && this.inQuote && this.hasNext(this.quote)) {
+        // the following separator should be buffered to be checked
+        if (
+          !this.readerEmpty &&
+          this.inputBufferUnprocessed <
+            this.quote.length + this.minPossibleBufferReserve
+        ) {
+          await this.readMoreData();
+          continue;
+        }
         this.debug("end quoted column");
         this.inQuote = false;
         this.inColumn = false;
         this.skip(this.quote.length);
-        if (
-          this.inputBufferUnprocessed > 0 &&
-          !this.hasNext(this.lineSeparator) &&
-          !this.hasNext(this.columnSeparator)
-        ) {
-          const charCode = this.inputBuffer[this.inputBufferIndex];
-          const char = charCode === 13 ? "\\r" : String.fromCharCode(charCode);
-          let msg =
-            `Expected EOF, COLUMN_SEPARATOR, LINE_SEPARATOR; received ${char} (${this.getCurrentPos()})`;
-          if (charCode === 13) {
-            msg +=
-              '\nPerhaps you need to add the setting lineSeparator: "\\r\\n"\nhttps://git.io/JDTDS';
-          }
-          this.onError(new Error(msg));
+        if (this.trimAroundQuotes) {
+          // spaces could be followed by separator in the next chunk
+          this.afterClosingQuote = true;
+          continue;
+        }
+        if (!this.checkAfterClosingQuote()) {
           return;
         }
         continue;
@@ -419,57 +1533,100 @@ export class CSVReader {
         this.inColumn &&
         !this.inQuote &&
         (this.inputBufferUnprocessed === 0 ||
-          this.hasNext(this.lineSeparator) ||
+          this.nextLineSeparatorLength() > 0 ||
           this.hasNext(this.columnSeparator))
       ) {
         this.debug("end unquoted column");
         this.inColumn = false;
+        if (this.trimRight) {
+          while (
+            this.columnBufferIndex >= this.codeUnitSize &&
+            isTrimmable(
+              this.codeUnitAt(
+                this.columnBuffer,
+                this.columnBufferIndex - this.codeUnitSize,
+              ),
+            )
+          ) {
+            this.columnBufferIndex -= this.codeUnitSize;
+          }
+        }
+        continue;
+      }
+
+      if (
+        this.trimAroundQuotes &&
+        !this.inQuote &&
+        this.hasNext(this.quote) &&
+        this.isColumnBlank()
+      ) {
+        this.debug("start quoted column after spaces");
+        this.columnBufferIndex = 0;
+        this.inQuote = true;
+        this.columnQuoted = true;
+        this.skip(this.quote.length);
         continue;
       }
 
       if (this.inColumn && this.inputBufferUnprocessed > 0) {
         const slice = this.inputBuffer.subarray(this.inputBufferIndex);
-        const limit = Math.min(
+        let limit = Math.min(
           slice.length - this.minPossibleBufferReserve,
           this.columnBuffer.length - this.columnBufferIndex,
         );
+        // code units aren't split between reads
+        limit -= limit % this.codeUnitSize;
 
-        let readTillIndex = 1;
+        let readTillIndex = Math.min(
+          this.codeUnitSize,
+          this.inputBufferUnprocessed,
+        );
         let newLines = 0;
         let lastLineStartPos = -1;
-        if (limit > 1) {
-          if (this.inQuote) {
-            const { till, lineSeparatorsFound, lastLineSeparatorEndIndex } =
-              findReadTillIndexQuoted(
-                slice,
-                limit,
-                this.quote,
-                this.lineSeparator,
-              );
-
-            readTillIndex = till;
-            newLines = lineSeparatorsFound;
-            lastLineStartPos = this.currentPos + lastLineSeparatorEndIndex;
-          } else {
-            const { till, type } = findReadTillIndex(
+        if (this.inQuote) {
+          // line separators are counted even when reading char by char
+          const { till, lineSeparatorsFound, lastLineSeparatorEndIndex } =
+            findReadTillIndexQuoted(
               slice,
-              limit,
-              this.lineSeparator,
-              this.columnSeparator,
+              Math.max(limit, this.codeUnitSize),
               this.quote,
+              this.lineSeparator,
+              this.universalNewline,
+              this.escape,
+              this.codeUnitSize,
             );
 
-            if (till === 0 && type === FindReadTillIndexType.QUOTE) {
-              this.onError(
-                new Error(
-                  `Unexpected quote in unquoted field (${this.getCurrentPos()})`,
+          // truncated code unit at the end of input
+          readTillIndex = Math.min(till, slice.length);
+          newLines = lineSeparatorsFound;
+          lastLineStartPos = this.currentPos + lastLineSeparatorEndIndex;
+        } else if (limit > this.codeUnitSize) {
+          const { till, type } = findReadTillIndex(
+            slice,
+            limit,
+            this.lineSeparator,
+            this.universalNewline,
+            this.columnSeparator,
+            this.quote,
+            this.escape,
+            this.codeUnitSize,
+          );
+
+          if (till === 0 && type === FindReadTillIndexType.QUOTE) {
+            if (
+              !this.failRecord(
+                this.parseError(
+                  "UNEXPECTED_QUOTE",
+                  "Unexpected quote in unquoted field",
                 ),
-              );
+              )
+            ) {
               return;
             }
-
-            readTillIndex = till;
+            continue;
           }
+
+          readTillIndex = till;
         }
 
         if (readTillIndex > 0) {
@@ -483,14 +1640,23 @@ export class CSVReader {
       }
 
       if (this.inQuote && this.inputBufferUnprocessed === 0) {
-        this.onError(
-          new Error(`Expected quote, received EOF (${this.getCurrentPos()})`),
-        );
-        return;
+        if (
+          !this.failRecord(
+            this.parseError(
+              "UNTERMINATED_QUOTE",
+              "Expected quote, received EOF",
+            ),
+          )
+        ) {
+          return;
+        }
+        continue;
       }
 
-      this.onError(new Error(`unexpected (${this.getCurrentPos()})`));
-      return;
+      if (!this.failRecord(this.parseError("UNEXPECTED", "unexpected"))) {
+        return;
+      }
+      continue;
     }
   }
 }
@@ -498,6 +1664,8 @@ export class CSVReader {
 class CSVStreamReader implements AsyncIterableIterator<string | symbol> {
   private reader: CSVReader;
   private done: boolean;
+  // cells are held till the end of record when malformed records are dropped
+  private record?: string[];
   private buffer: Array<IteratorResult<string | symbol, void> | Error>;
   private nextPromise?: Promise<IteratorResult<string | symbol, void>>;
   private nextPromiseResolve?: (
@@ -505,23 +1673,44 @@ class CSVStreamReader implements AsyncIterableIterator<string | symbol> {
   ) => void;
   private nextPromiseReject?: (err: Error) => void;
 
-  constructor(reader: Reader, options?: Partial<CommonCSVReaderOptions>) {
+  constructor(
+    reader: CSVReaderSource,
+    options?: Partial<CommonCSVReaderOptions>,
+  ) {
     this.buffer = [];
     this.done = false;
+    this.record = options?.errorMode && options.errorMode !== "throw"
+      ? []
+      : undefined;
     this.reader = new CSVReader(reader, {
       ...options,
       onCell: (value) => this.onCell(value),
       onRowEnd: () => this.onRowEnd(),
       onEnd: () => this.onEnd(),
       onError: (err) => this.onError(err),
-    });
+      onInvalidRecord: (record) => {
+        this.record = [];
+        options?.onInvalidRecord?.(record);
+      },
+    }, false);
   }
 
   private onCell(value: string) {
-    this.process({ done: false, value });
+    if (this.record) {
+      this.record.push(value);
+    } else {
+      this.process({ done: false, value });
+    }
   }
 
   private onRowEnd() {
+    if (this.record) {
+      const record = this.record;
+      this.record = [];
+      for (const value of record) {
+        this.process({ done: false, value });
+      }
+    }
     this.process({ done: false, value: newLine });
   }
 
@@ -583,6 +1772,21 @@ class CSVStreamReader implements AsyncIterableIterator<string | symbol> {
     return promise;
   }
 
+  /** Called when loop is broken or stream is cancelled, stops reading */
+  async return(
+    reason?: unknown,
+  ): Promise<IteratorResult<string | symbol, void>> {
+    this.done = true;
+    this.buffer = [];
+    const resolve = this.nextPromiseResolve;
+    this.nextPromise = undefined;
+    this.nextPromiseResolve = undefined;
+    this.nextPromiseReject = undefined;
+    resolve?.({ done: true, value: undefined });
+    await this.reader.cancel(reason);
+    return { done: true, value: undefined };
+  }
+
   [Symbol.asyncIterator]() {
     return this;
   }
@@ -602,42 +1806,92 @@ export const newLine = Symbol("newLine");
  *       }
  */
 export function readCSVStream(
-  reader: Reader,
+  reader: CSVReaderSource,
   options?: Partial<CommonCSVReaderOptions>,
 ): AsyncIterable<string | symbol> {
   return new CSVStreamReader(reader, options);
 }
 
-class CSVRowReader implements AsyncIterableIterator<string[]> {
+class CSVRowReader<T = string[]>
+  implements AsyncIterableIterator<T>, CSVRecordIterable<T> {
+  readonly errors: CSVInvalidRecord[];
   private reader: CSVReader;
   private done: boolean;
-  private row: string[];
-  private buffer: Array<IteratorResult<string[], void> | Error>;
-  private nextPromise?: Promise<IteratorResult<string[], void>>;
-  private nextPromiseResolve?: (res: IteratorResult<string[], void>) => void;
+  private row: Array<string | null>;
+  private cells: CSVCellInfo[];
+  private makeRow?: (
+    row: Array<string | null>,
+    info: CSVRecordInfo,
+    cells: CSVCellInfo[],
+  ) => T;
+  private withCells: boolean;
+  private nullValue?: string;
+  private buffer: Array<IteratorResult<T, void> | Error>;
+  private nextPromise?: Promise<IteratorResult<T, void>>;
+  private nextPromiseResolve?: (res: IteratorResult<T, void>) => void;
   private nextPromiseReject?: (err: Error) => void;
 
-  constructor(reader: Reader, options?: Partial<CommonCSVReaderOptions>) {
+  constructor(
+    reader: CSVReaderSource,
+    options?: Partial<CSVReaderOptions>,
+    makeRow?: (
+      row: Array<string | null>,
+      info: CSVRecordInfo,
+      cells: CSVCellInfo[],
+    ) => T,
+    withCells = false,
+  ) {
+    this.errors = [];
     this.buffer = [];
     this.done = false;
     this.row = [];
+    this.cells = [];
+    this.makeRow = makeRow;
+    this.withCells = withCells;
+    this.nullValue = options?.nullValue;
     this.reader = new CSVReader(reader, {
       ...options,
-      onCell: (value) => this.onCell(value),
-      onRowEnd: () => this.onRowEnd(),
+      onCell: (value, info) => this.onCell(value, info),
+      onRowEnd: (info) => this.onRowEnd(info),
       onEnd: () => this.onEnd(),
       onError: (err) => this.process(err),
-    });
+      onInvalidRecord: (record) => {
+        this.row = [];
+        this.cells = [];
+        if (options?.errorMode === "collect") {
+          this.errors.push(record);
+        }
+        options?.onInvalidRecord?.(record);
+      },
+      // quoted is needed to tell null from the same quoted string
+    }, withCells || this.nullValue !== undefined);
   }
 
-  private onCell(cell: string) {
-    this.row.push(cell);
+  checkpoint(): CSVCheckpoint {
+    return this.reader.checkpoint();
   }
 
-  private onRowEnd() {
+  private onCell(cell: string, info: CSVCellInfo) {
+    this.row.push(
+      this.nullValue === undefined
+        ? cell
+        : cellValue(cell, info, this.nullValue),
+    );
+    if (this.withCells) {
+      this.cells.push(info);
+    }
+  }
+
+  private onRowEnd(info: CSVRecordInfo) {
     const row = this.row;
     this.row = [];
-    this.process({ done: false, value: row });
+    if (this.makeRow) {
+      const cells = this.cells;
+      this.cells = [];
+      this.process({ done: false, value: this.makeRow(row, info, cells) });
+    } else {
+      this.process({ done: false, value: row as T });
+    }
   }
 
   private onEnd() {
@@ -645,7 +1899,7 @@ class CSVRowReader implements AsyncIterableIterator<string[]> {
     this.process({ done: true, value: undefined });
   }
 
-  private process(result: IteratorResult<string[], void> | Error) {
+  private process(result: IteratorResult<T, void> | Error) {
     const cb = result instanceof Error
       ? this.nextPromiseReject
       : this.nextPromiseResolve;
@@ -663,7 +1917,7 @@ class CSVRowReader implements AsyncIterableIterator<string[]> {
     this.reader.pause();
   }
 
-  next(): Promise<IteratorResult<string[], void>> {
+  next(): Promise<IteratorResult<T, void>> {
     if (this.done && this.buffer.length === 0) {
       return Promise.resolve({ done: true, value: undefined });
     }
@@ -694,6 +1948,19 @@ class CSVRowReader implements AsyncIterableIterator<string[]> {
     return promise;
   }
 
+  /** Called when loop is broken or stream is cancelled, stops reading */
+  async return(reason?: unknown): Promise<IteratorResult<T, void>> {
+    this.done = true;
+    this.buffer = [];
+    const resolve = this.nextPromiseResolve;
+    this.nextPromise = undefined;
+    this.nextPromiseResolve = undefined;
+    this.nextPromiseReject = undefined;
+    resolve?.({ done: true, value: undefined });
+    await this.reader.cancel(reason);
+    return { done: true, value: undefined };
+  }
+
   [Symbol.asyncIterator]() {
     return this;
   }
@@ -704,11 +1971,39 @@ class CSVRowReader implements AsyncIterableIterator<string[]> {
  *       for await (const row of readCSVRows(f)) {
  *         console.log(`row: ${row.join(' ')}`)
  *       }
+ *
+ *       for await (const { row, startLine } of readCSVRows(f, { withInfo: true })) {
+ *         console.log(`line ${startLine}: ${row.join(' ')}`)
+ *       }
  */
 export function readCSVRows(
-  reader: Reader,
+  reader: CSVReaderSource,
+  options: Partial<CommonCSVReaderOptions> & {
+    nullValue: string;
+    withInfo: true;
+  },
+): CSVRecordIterable<CSVRowWithInfo<Array<string | null>>>;
+export function readCSVRows(
+  reader: CSVReaderSource,
+  options: Partial<CommonCSVReaderOptions> & { nullValue: string },
+): CSVRecordIterable<Array<string | null>>;
+export function readCSVRows(
+  reader: CSVReaderSource,
+  options: Partial<CommonCSVReaderOptions> & { withInfo: true },
+): CSVRecordIterable<CSVRowWithInfo<string[]>>;
+export function readCSVRows(
+  reader: CSVReaderSource,
+  options?: Partial<CommonCSVReaderOptions>,
+): CSVRecordIterable<string[]>;
+export function readCSVRows(
+  reader: CSVReaderSource,
   options?: Partial<CommonCSVReaderOptions>,
-): AsyncIterable<string[]> {
+): CSVRecordIterable<
+  Array<string | null> | CSVRowWithInfo<Array<string | null>>
+> {
+  if (options?.withInfo) {
+    return new CSVRowReader(reader, options, (row, info) => ({ row, ...info }));
+  }
   return new CSVRowReader(reader, options);
 }
 
@@ -764,6 +2059,8 @@ class RowIterator implements AsyncIterableIterator<string> {
 class CSVRowIteratorReader implements AsyncIterableIterator<RowIterator> {
   private reader: CSVReader;
   private done: boolean;
+  // cells are held till the end of record when malformed records are dropped
+  private record?: string[];
   private rowIterator: RowIterator | undefined;
   private buffer: Array<IteratorResult<string | symbol, void> | Error>;
   private nextPromise?: Promise<IteratorResult<string | symbol, void>>;
@@ -772,23 +2069,44 @@ class CSVRowIteratorReader implements AsyncIterableIterator<RowIterator> {
   ) => void;
   private nextPromiseReject?: (err: Error) => void;
 
-  constructor(reader: Reader, options?: Partial<CommonCSVReaderOptions>) {
+  constructor(
+    reader: CSVReaderSource,
+    options?: Partial<CommonCSVReaderOptions>,
+  ) {
     this.done = false;
     this.buffer = [];
+    this.record = options?.errorMode && options.errorMode !== "throw"
+      ? []
+      : undefined;
     this.reader = new CSVReader(reader, {
       ...options,
       onCell: (value) => this.onCell(value),
       onRowEnd: () => this.onRowEnd(),
       onEnd: () => this.onEnd(),
       onError: (err) => this.onError(err),
-    });
+      onInvalidRecord: (record) => {
+        this.record = [];
+        options?.onInvalidRecord?.(record);
+      },
+    }, false);
   }
 
   private onCell(value: string) {
-    this.process({ done: false, value });
+    if (this.record) {
+      this.record.push(value);
+    } else {
+      this.process({ done: false, value });
+    }
   }
 
   private onRowEnd() {
+    if (this.record) {
+      const record = this.record;
+      this.record = [];
+      for (const value of record) {
+        this.process({ done: false, value });
+      }
+    }
     this.process({ done: false, value: newLine });
   }
 
@@ -820,6 +2138,10 @@ class CSVRowIteratorReader implements AsyncIterableIterator<RowIterator> {
   }
 
   onRequested(): Promise<IteratorResult<string | symbol>> {
+    if (this.done && this.buffer.length === 0) {
+      return Promise.resolve({ done: true, value: undefined });
+    }
+
     let promise = this.nextPromise;
     if (!promise) {
       if (this.buffer.length > 0) {
@@ -865,6 +2187,19 @@ class CSVRowIteratorReader implements AsyncIterableIterator<RowIterator> {
     return { done: false, value: this.rowIterator };
   }
 
+  /** Called when loop is broken, stops reading */
+  async return(reason?: unknown): Promise<IteratorResult<RowIterator, void>> {
+    this.done = true;
+    this.buffer = [];
+    const resolve = this.nextPromiseResolve;
+    this.nextPromise = undefined;
+    this.nextPromiseResolve = undefined;
+    this.nextPromiseReject = undefined;
+    resolve?.({ done: true, value: undefined });
+    await this.reader.cancel(reason);
+    return { done: true, value: undefined };
+  }
+
   [Symbol.asyncIterator]() {
     return this;
   }
@@ -880,7 +2215,7 @@ class CSVRowIteratorReader implements AsyncIterableIterator<RowIterator> {
  *       }
  */
 export function readCSV(
-  reader: Reader,
+  reader: CSVReaderSource,
   options?: Partial<CommonCSVReaderOptions>,
 ): AsyncIterable<AsyncIterable<string>> {
   return new CSVRowIteratorReader(reader, options);
@@ -891,50 +2226,600 @@ export function readCSV(
  *       for await (const obj of readCSVObjects(f)) {
  *         console.log(obj);
  *       }
+ *
+ *       const schema = { id: csvTypes.int, name: csvTypes.nullable(String) };
+ *       for await (const { id, name } of readCSVObjects(f, { schema })) {
+ *         console.log(id + 1, name ?? "unknown");
+ *       }
+ */
+export function readCSVObjects<S extends CSVSchema>(
+  reader: CSVReaderSource,
+  options: Partial<CSVObjectsReaderOptions<S>> & { schema: S; withInfo: true },
+): CSVRecordIterable<CSVRowWithInfo<CSVSchemaObject<S>>>;
+export function readCSVObjects<S extends CSVSchema>(
+  reader: CSVReaderSource,
+  options: Partial<CSVObjectsReaderOptions<S>> & { schema: S },
+): CSVRecordIterable<CSVSchemaObject<S>>;
+export function readCSVObjects(
+  reader: CSVReaderSource,
+  options:
+    & Partial<CSVObjectsReaderOptions>
+    & (
+      | { duplicateHeaders: "array" }
+      | { columnCount: "rest" }
+      | { nullValue: string }
+    )
+    & { withInfo: true },
+): CSVRecordIterable<CSVRowWithInfo<CSVLooseObject>>;
+export function readCSVObjects(
+  reader: CSVReaderSource,
+  options:
+    & Partial<CSVObjectsReaderOptions>
+    & (
+      | { duplicateHeaders: "array" }
+      | { columnCount: "rest" }
+      | { nullValue: string }
+    ),
+): CSVRecordIterable<CSVLooseObject>;
+export function readCSVObjects(
+  reader: CSVReaderSource,
+  options: Partial<CSVObjectsReaderOptions> & { withInfo: true },
+): CSVRecordIterable<CSVRowWithInfo<{ [key: string]: string }>>;
+export function readCSVObjects(
+  reader: CSVReaderSource,
+  options?: Partial<CSVObjectsReaderOptions>,
+): CSVRecordIterable<{ [key: string]: string }>;
+export function readCSVObjects(
+  reader: CSVReaderSource,
+  options?: Partial<CSVObjectsReaderOptions>,
+): CSVRecordIterable<unknown> {
+  return new CSVObjectReader(reader, options);
+}
+
+class CSVObjectReader
+  implements AsyncIterableIterator<unknown>, CSVRecordIterable<unknown> {
+  private objects: CSVObjectMaker;
+  private withInfo: boolean;
+  private rows: CSVRowReader<
+    { row: Array<string | null>; info: CSVRecordInfo; cells: CSVCellInfo[] }
+  >;
+
+  constructor(
+    reader: CSVReaderSource,
+    options?: Partial<CSVObjectsReaderOptions>,
+  ) {
+    this.objects = new CSVObjectMaker(options);
+    this.withInfo = !!options?.withInfo;
+    this.rows = new CSVRowReader(
+      reader,
+      this.objects.readerOptions(options),
+      (row, info, cells) => ({ row, info, cells }),
+      this.objects.needsCellInfo(),
+    );
+  }
+
+  get errors(): CSVInvalidRecord[] {
+    return this.rows.errors;
+  }
+
+  checkpoint(): CSVCheckpoint {
+    return { ...this.rows.checkpoint(), header: this.objects.getHeader() };
+  }
+
+  async next(): Promise<IteratorResult<unknown, void>> {
+    while (true) {
+      const res = await this.rows.next();
+      if (res.done) {
+        return res;
+      }
+      const { row, info, cells } = res.value;
+      const obj = this.objects.make(row, cells);
+      if (obj) {
+        return {
+          done: false,
+          value: this.withInfo ? { row: obj, ...info } : obj,
+        };
+      }
+    }
+  }
+
+  /** Called when loop is broken or stream is cancelled, stops reading */
+  return(reason?: unknown): Promise<IteratorResult<unknown, void>> {
+    return this.rows.return(reason);
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+}
+
+/** Parse CSV which is already in memory:
+ *
+ *       const rows = parseCSV("a,b\n1,2");
+ *       // [["a", "b"], ["1", "2"]]
  */
-export async function* readCSVObjects(
-  reader: Reader,
+export function parseCSV(
+  input: string | Uint8Array,
+  options: Partial<CommonCSVReaderOptions> & {
+    nullValue: string;
+    withInfo: true;
+  },
+): CSVRowWithInfo<Array<string | null>>[];
+export function parseCSV(
+  input: string | Uint8Array,
+  options: Partial<CommonCSVReaderOptions> & { nullValue: string },
+): Array<string | null>[];
+export function parseCSV(
+  input: string | Uint8Array,
+  options: Partial<CommonCSVReaderOptions> & { withInfo: true },
+): CSVRowWithInfo<string[]>[];
+export function parseCSV(
+  input: string | Uint8Array,
   options?: Partial<CommonCSVReaderOptions>,
-): AsyncIterable<{ [key: string]: string }> {
-  let header: string[] | undefined;
+): string[][];
+export function parseCSV(
+  input: string | Uint8Array,
+  options?: Partial<CommonCSVReaderOptions>,
+): Array<Array<string | null> | CSVRowWithInfo<Array<string | null>>> {
+  const rows: Array<
+    Array<string | null> | CSVRowWithInfo<Array<string | null>>
+  > = [];
 
-  for await (const row of new CSVRowReader(reader, options)) {
-    if (!header) {
-      header = row;
-      continue;
+  parseCSVSync(input, options, false, (row, _cells, info) => {
+    rows.push(options?.withInfo ? { row, ...info } : row);
+  });
+
+  return rows;
+}
+
+/** Parse CSV which is already in memory as objects using the header row:
+ *
+ *       const objects = parseCSVObjects("a,b\n1,2");
+ *       // [{ a: "1", b: "2" }]
+ */
+export function parseCSVObjects<S extends CSVSchema>(
+  input: string | Uint8Array,
+  options: Partial<CSVObjectsReaderOptions<S>> & { schema: S; withInfo: true },
+): CSVRowWithInfo<CSVSchemaObject<S>>[];
+export function parseCSVObjects<S extends CSVSchema>(
+  input: string | Uint8Array,
+  options: Partial<CSVObjectsReaderOptions<S>> & { schema: S },
+): CSVSchemaObject<S>[];
+export function parseCSVObjects(
+  input: string | Uint8Array,
+  options:
+    & Partial<CSVObjectsReaderOptions>
+    & (
+      | { duplicateHeaders: "array" }
+      | { columnCount: "rest" }
+      | { nullValue: string }
+    )
+    & { withInfo: true },
+): CSVRowWithInfo<CSVLooseObject>[];
+export function parseCSVObjects(
+  input: string | Uint8Array,
+  options:
+    & Partial<CSVObjectsReaderOptions>
+    & (
+      | { duplicateHeaders: "array" }
+      | { columnCount: "rest" }
+      | { nullValue: string }
+    ),
+): CSVLooseObject[];
+export function parseCSVObjects(
+  input: string | Uint8Array,
+  options: Partial<CSVObjectsReaderOptions> & { withInfo: true },
+): CSVRowWithInfo<{ [key: string]: string }>[];
+export function parseCSVObjects(
+  input: string | Uint8Array,
+  options?: Partial<CSVObjectsReaderOptions>,
+): { [key: string]: string }[];
+export function parseCSVObjects(
+  input: string | Uint8Array,
+  options?: Partial<CSVObjectsReaderOptions>,
+): unknown[] {
+  const objects = new CSVObjectMaker(options);
+  const result: unknown[] = [];
+
+  parseCSVSync(
+    input,
+    objects.readerOptions(options),
+    objects.needsCellInfo(),
+    (row, cells, info) => {
+      const obj = objects.make(row, cells);
+      if (obj) {
+        result.push(options?.withInfo ? { row: obj, ...info } : obj);
+      }
+    },
+  );
+
+  return result;
+}
+
+function parseCSVSync(
+  input: string | Uint8Array,
+  options: Partial<CSVReaderOptions> | undefined,
+  withCells: boolean,
+  onRow: (
+    row: Array<string | null>,
+    cells: CSVCellInfo[],
+    info: CSVRecordInfo,
+  ) => void,
+) {
+  if (options?.compression) {
+    throw new TypeError(
+      "Compressed input couldn't be parsed synchronously, use readCSVRows",
+    );
+  }
+  const nullValue = options?.nullValue;
+  let row: Array<string | null> = [];
+  let cells: CSVCellInfo[] = [];
+  let ended = false;
+  let error: unknown;
+
+  // the whole input is buffered, so parseCycle never awaits
+  // and all callbacks are called before read() returns
+  const reader: CSVReader = new CSVReader(getUint8Array(input), {
+    ...options,
+    // strings are encoded as UTF-8
+    encoding: typeof input === "string" ? "utf-8" : options?.encoding,
+    onCell(cell, info) {
+      row.push(
+        nullValue === undefined ? cell : cellValue(cell, info, nullValue),
+      );
+      if (withCells) {
+        cells.push(info);
+      }
+    },
+    onRowEnd(info) {
+      try {
+        onRow(row, cells, info);
+      } catch (err) {
+        error = err;
+        reader.pause();
+      }
+      row = [];
+      cells = [];
+    },
+    onInvalidRecord(record) {
+      row = [];
+      cells = [];
+      options?.onInvalidRecord?.(record);
+    },
+    onEnd() {
+      ended = true;
+    },
+    onError(err) {
+      error = err;
+    },
+    // quoted is needed to tell null from the same quoted string
+  }, withCells || nullValue !== undefined);
+  reader.read();
+
+  if (error) {
+    throw error;
+  }
+  if (!ended) {
+    throw new Error("CSV couldn't be parsed synchronously");
+  }
+}
+
+class CSVObjectMaker {
+  private header?: string[];
+  private keys: Array<string | null>;
+  private arrayKeys?: Set<string>;
+  private rows: number;
+  private schema?: CSVSchema;
+  private mapHeader?: (name: string, index: number) => string | null;
+  private duplicateHeaders: "error" | "suffix" | "array";
+  private restKey?: string;
+  private converters: Array<{ key: string; index: number }>;
+
+  constructor(options?: Partial<CSVObjectsReaderOptions>) {
+    const header = options?.resumeFrom?.header || options?.columns;
+    // the header is the record 0 unless columns are set
+    this.rows = Math.max(
+      (options?.resumeFrom?.record || 0) - (options?.columns ? 0 : 1),
+      0,
+    );
+    this.schema = options?.schema;
+    this.mapHeader = options?.mapHeader;
+    this.duplicateHeaders = options?.duplicateHeaders || "error";
+    this.restKey = options?.columnCount === "rest"
+      ? options.restKey || "_rest"
+      : undefined;
+    this.keys = [];
+    this.converters = [];
+    // header isn't read again when reading is resumed
+    if (header) {
+      this.setHeader(header);
+    }
+  }
+
+  needsCellInfo() {
+    return !!this.schema;
+  }
+
+  /** Cells of records are counted by the header which could be not read */
+  readerOptions(
+    options?: Partial<CSVObjectsReaderOptions>,
+  ): Partial<CSVReaderOptions> {
+    return { ...options, expectedColumnCount: this.header?.length };
+  }
+
+  getHeader() {
+    return this.header;
+  }
+
+  private setHeader(header: string[], cells?: CSVCellInfo[]) {
+    this.header = header;
+    this.keys = header.map((name, index) =>
+      this.mapHeader ? this.mapHeader(name, index) : name
+    );
+    this.resolveDuplicates();
+    if (this.schema) {
+      this.converters = Object.keys(this.schema).map((key) => ({
+        key,
+        index: this.keys.indexOf(key),
+      }));
+      this.checkMissingColumns(this.schema, cells?.[0]);
+    }
+  }
+
+  /** Missing columns are converted as empty cells, so it is checked once with the header */
+  private checkMissingColumns(schema: CSVSchema, cell?: CSVCellInfo) {
+    for (const { key, index } of this.converters) {
+      if (index >= 0) {
+        continue;
+      }
+      try {
+        schema[key]("");
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        // the header set by options has no location
+        throw new CSVSchemaError(
+          `Column "${key}" of schema is missing in header: ${reason}`,
+          {
+            header: key,
+            value: "",
+            row: 0,
+            line: cell?.line ?? 0,
+            character: cell?.character ?? 0,
+            cause: err,
+          },
+        );
+      }
+    }
+  }
+
+  private resolveDuplicates() {
+    const seen = new Set<string>();
+    // suffixes don't repeat names of other columns
+    const taken = new Set(this.keys);
+    for (let i = 0; i < this.keys.length; i++) {
+      const key = this.keys[i];
+      if (key === null) {
+        continue;
+      }
+      if (!seen.has(key)) {
+        seen.add(key);
+        continue;
+      }
+
+      switch (this.duplicateHeaders) {
+        case "error":
+          throw new Error(
+            `Duplicate header "${key}" in column ${
+              i + 1
+            }, set duplicateHeaders option to read it`,
+          );
+        case "suffix": {
+          let n = 2;
+          while (taken.has(`${key}_${n}`)) {
+            n++;
+          }
+          this.keys[i] = `${key}_${n}`;
+          taken.add(this.keys[i]);
+          break;
+        }
+        case "array":
+          this.arrayKeys ??= new Set();
+          this.arrayKeys.add(key);
+          break;
+      }
+    }
+  }
+
+  /** Returns undefined for the header row */
+  make(
+    row: Array<string | null>,
+    cells?: CSVCellInfo[],
+  ): { [key: string]: unknown } | undefined {
+    const { keys, arrayKeys, schema } = this;
+
+    if (!this.header) {
+      this.setHeader(row.map((name) => name ?? ""), cells);
+      return;
+    }
+
+    this.rows++;
+
+    const obj: { [key: string]: unknown } = {};
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      if (key === null) {
+        continue;
+      }
+      if (arrayKeys?.has(key)) {
+        ((obj[key] ??= []) as Array<string | null>).push(row[i]);
+      } else {
+        obj[key] = row[i];
+      }
+    }
+    if (this.restKey !== undefined && row.length > keys.length) {
+      obj[this.restKey] = row.slice(keys.length);
     }
 
-    const obj: { [key: string]: string } = {};
-    for (let i = 0; i < header.length; i++) {
-      obj[header[i]] = row[i];
+    if (schema) {
+      for (const { key, index } of this.converters) {
+        // missing and null cells are converted as empty
+        const value = (index >= 0 && index < row.length ? row[index] : "") ??
+          "";
+        try {
+          obj[key] = schema[key](value);
+        } catch (err) {
+          const cell = (cells && (cells[index] || cells[0])) ||
+            { line: 0, character: 0 };
+          const reason = err instanceof Error ? err.message : String(err);
+          throw new CSVSchemaError(
+            `Invalid value "${value}" in column "${key}": ${reason} (row ${this.rows}, line ${cell.line}, character ${cell.character})`,
+            {
+              header: key,
+              value,
+              row: this.rows,
+              line: cell.line,
+              character: cell.character,
+              cause: err,
+            },
+          );
+        }
+      }
     }
 
-    yield obj;
+    return obj;
   }
 }
 
+/** Transform stream parsing CSV bytes into arrays of cells:
+ *
+ *       const res = await fetch("https://example.com/example.csv");
+ *       for await (const row of res.body!.pipeThrough(new CSVParseStream())) {
+ *         console.log(`row: ${row.join(' ')}`)
+ *       }
+ */
+export class CSVParseStream implements TransformStream<Uint8Array, string[]> {
+  readonly readable: ReadableStream<string[]>;
+  readonly writable: WritableStream<Uint8Array>;
+
+  constructor(options?: Partial<Omit<CommonCSVReaderOptions, "nullValue">>) {
+    const { readable, writable } = new TransformStream<
+      Uint8Array,
+      Uint8Array
+    >();
+    this.readable = ReadableStream.from(readCSVRows(readable, options));
+    this.writable = writable;
+  }
+}
+
+/** Transform stream parsing CSV bytes into objects using the header row:
+ *
+ *       const res = await fetch("https://example.com/example.csv");
+ *       for await (const obj of res.body!.pipeThrough(new CSVObjectParseStream())) {
+ *         console.log(obj);
+ *       }
+ */
+export class CSVObjectParseStream
+  implements TransformStream<Uint8Array, { [key: string]: string }> {
+  readonly readable: ReadableStream<{ [key: string]: string }>;
+  readonly writable: WritableStream<Uint8Array>;
+
+  constructor(options?: Partial<Omit<CommonCSVReaderOptions, "nullValue">>) {
+    const { readable, writable } = new TransformStream<
+      Uint8Array,
+      Uint8Array
+    >();
+    this.readable = ReadableStream.from(readCSVObjects(readable, options));
+    this.writable = writable;
+  }
+}
+
+/** Unlike the stream iterator, `return` cancels the stream while `next` is pending */
+function streamIterator(
+  stream: ReadableStream<Uint8Array>,
+): AsyncIterator<Uint8Array> {
+  const reader = stream.getReader();
+  return {
+    next: () => reader.read() as Promise<IteratorResult<Uint8Array>>,
+    async return(reason?: unknown) {
+      // errored stream rejects cancel, but it is released anyway
+      await reader.cancel(reason).catch(() => {});
+      reader.releaseLock();
+      return { done: true, value: undefined };
+    },
+  };
+}
+
+function emptyIterator(): AsyncIterator<Uint8Array> {
+  return {
+    next: () => Promise.resolve({ done: true, value: undefined }),
+  };
+}
+
+/** Length of line separator starting at `i` or 0 */
+function matchLineSeparator(
+  a: Uint8Array,
+  i: number,
+  lineSeparator: Uint8Array,
+  universal: boolean,
+): number {
+  if (universal && lineSeparator.length === 2) {
+    if (a[i] === 10) {
+      return 1;
+    }
+    if (a[i] === 13) {
+      return a[i + 1] === 10 ? 2 : 1;
+    }
+    return 0;
+  }
+  if (universal) {
+    // lineSeparator is "\r\n" encoded in UTF-16
+    const unit = lineSeparator.length / 2;
+    const cr = lineSeparator.subarray(0, unit);
+    const lf = lineSeparator.subarray(unit);
+    if (hasPrefixFrom(a, lf, i)) {
+      return unit;
+    }
+    if (hasPrefixFrom(a, cr, i)) {
+      return hasPrefixFrom(a, lf, i + unit) ? unit * 2 : unit;
+    }
+    return 0;
+  }
+  return hasPrefixFrom(a, lineSeparator, i) ? lineSeparator.length : 0;
+}
+
 function findReadTillIndexQuoted(
   a: Uint8Array,
   limit: number,
   quote: Uint8Array,
   lineSeparator: Uint8Array,
+  universal: boolean,
+  escape?: Uint8Array,
+  step = 1,
 ): {
   till: number;
   lineSeparatorsFound: number;
   lastLineSeparatorEndIndex: number;
 } {
   const s1 = quote[0];
-  const s2 = lineSeparator[0];
+  // the first bytes of LF and CR for "auto"
+  const s2 = lineSeparator[universal ? lineSeparator.length / 2 : 0];
+  const s3 = lineSeparator[0];
+  const s4 = escape ? escape[0] : -1;
   let result = limit;
   let lineSeparatorsFound = 0;
   let lastLineSeparatorEndIndex = -1;
 
-  for (let i = 0; i < a.length; i++) {
+  for (let i = 0; i < a.length; i += step) {
     if (i >= limit) {
       result = limit;
       break;
     }
 
+    if (a[i] === s4 && hasPrefixFrom(a, escape!, i)) {
+      result = i;
+      break;
+    }
+
     if (a[i] === s1) {
       let matched = 1;
       let j = i;
@@ -951,20 +2836,21 @@ function findReadTillIndexQuoted(
       }
     }
 
-    if (a[i] === s2) {
-      let matched = 1;
-      let j = i;
-      while (matched < lineSeparator.length) {
-        j++;
-        if (a[j] !== lineSeparator[j - i]) {
+    if (a[i] === s2 || a[i] === s3) {
+      const length = matchLineSeparator(a, i, lineSeparator, universal);
+      if (length > 0) {
+        if (i > 0 && i + length > limit) {
+          // don't split line separator between reads
+          result = i;
           break;
         }
-        matched++;
-      }
-      if (matched === lineSeparator.length) {
         lineSeparatorsFound++;
-        lastLineSeparatorEndIndex = i + lineSeparator.length;
-        i += lineSeparator.length - 1;
+        lastLineSeparatorEndIndex = i + length;
+        i += length - step;
+        if (i + step >= limit) {
+          result = i + step;
+          break;
+        }
       }
     }
   }
@@ -977,37 +2863,39 @@ enum FindReadTillIndexType {
   LINE_SEPARATOR = 1,
   COLUMN_SEPARATOR = 2,
   QUOTE = 3,
+  ESCAPE = 4,
 }
 
 function findReadTillIndex(
   a: Uint8Array,
   limit: number,
   lineSeparator: Uint8Array,
+  universal: boolean,
   columnSeparator: Uint8Array,
   quote: Uint8Array,
+  escape?: Uint8Array,
+  step = 1,
 ): { till: number; type: FindReadTillIndexType } {
-  const s1 = lineSeparator[0];
+  const s1 = lineSeparator[universal ? lineSeparator.length / 2 : 0];
   const s2 = columnSeparator[0];
   const s3 = quote[0];
+  const s4 = lineSeparator[0];
+  const s5 = escape ? escape[0] : -1;
 
-  for (let i = 0; i < a.length; i++) {
+  for (let i = 0; i < a.length; i += step) {
     if (i >= limit) {
       return { till: limit, type: FindReadTillIndexType.LIMIT };
     }
 
-    if (a[i] === s1) {
-      let matched = 1;
-      let j = i;
-      while (matched < lineSeparator.length) {
-        j++;
-        if (a[j] !== lineSeparator[j - i]) {
-          break;
-        }
-        matched++;
-      }
-      if (matched === lineSeparator.length) {
-        return { till: i, type: FindReadTillIndexType.LINE_SEPARATOR };
-      }
+    if (a[i] === s5 && hasPrefixFrom(a, escape!, i)) {
+      return { till: i, type: FindReadTillIndexType.ESCAPE };
+    }
+
+    if (
+      (a[i] === s1 || a[i] === s4) &&
+      matchLineSeparator(a, i, lineSeparator, universal) > 0
+    ) {
+      return { till: i, type: FindReadTillIndexType.LINE_SEPARATOR };
     }
 
     if (a[i] === s2) {
@@ -1047,23 +2935,18 @@ function findReadTillIndex(
 function findReadTillLineSeparatorIndex(
   a: Uint8Array,
   lineSeparator: Uint8Array,
+  universal: boolean,
+  step = 1,
 ): number | null {
-  const s1 = lineSeparator[0];
+  const s1 = lineSeparator[universal ? lineSeparator.length / 2 : 0];
+  const s2 = lineSeparator[0];
 
-  for (let i = 0; i < a.length; i++) {
-    if (a[i] === s1) {
-      let matched = 1;
-      let j = i;
-      while (matched < lineSeparator.length) {
-        j++;
-        if (a[j] !== lineSeparator[j - i]) {
-          break;
-        }
-        matched++;
-      }
-      if (matched === lineSeparator.length) {
-        return i;
-      }
+  for (let i = 0; i < a.length; i += step) {
+    if (
+      (a[i] === s1 || a[i] === s2) &&
+      matchLineSeparator(a, i, lineSeparator, universal) > 0
+    ) {
+      return i;
     }
   }
 
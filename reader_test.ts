@@ -1,15 +1,29 @@
 import type { Reader } from "@std/io/types";
+import { SeekMode } from "@std/io/types";
 import { concat } from "@std/bytes/concat";
 import { assertRejects } from "@std/assert/rejects";
 import { assertEquals } from "@std/assert/equals";
+import { assertThrows } from "@std/assert/throws";
 import {
+  type CommonCSVReaderOptions,
+  type CSVCellInfo,
+  type CSVCheckpoint,
+  type CSVInvalidRecord,
+  CSVObjectParseStream,
+  CSVParseError,
+  type CSVParseErrorCode,
+  CSVParseStream,
+  CSVReader,
   newLine,
+  parseCSV,
+  parseCSVObjects,
   readCSV,
   readCSVObjects,
   readCSVRows,
   readCSVStream,
 } from "./reader.ts";
-import { asyncArrayFrom, asyncArrayFrom2 } from "./utils.ts";
+import { asyncArrayFrom, asyncArrayFrom2, getUint8Array } from "./utils.ts";
+import { csvTypes } from "./schema.ts";
 
 class MyReader implements Reader {
   private buf: Uint8Array;
@@ -42,6 +56,14 @@ class MyReader implements Reader {
   public reset() {
     this.index = 0;
   }
+
+  public seek(offset: number, whence: SeekMode): Promise<number> {
+    if (whence !== SeekMode.Start) {
+      throw new Error("not implemented");
+    }
+    this.index = offset;
+    return Promise.resolve(offset);
+  }
 }
 
 Deno.test({
@@ -497,3 +519,1190 @@ a,b,c
     ]);
   },
 });
+
+function bytesStream(
+  content: string | Uint8Array,
+  chunkSize = 3,
+  onCancel?: (reason: unknown) => void,
+) {
+  const bytes = typeof content === "string"
+    ? new TextEncoder().encode(content)
+    : content;
+  let pos = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (pos < bytes.length) {
+        controller.enqueue(bytes.slice(pos, pos + chunkSize));
+        pos += chunkSize;
+      } else {
+        controller.close();
+      }
+    },
+    cancel: onCancel,
+  }, { highWaterMark: 0 });
+}
+
+Deno.test({
+  name: "readCSVRows reads ReadableStream",
+  async fn() {
+    const rows = await asyncArrayFrom(
+      readCSVRows(bytesStream(`a,"b\n""1"""\n1,2`)),
+    );
+
+    assertEquals(rows, [
+      ["a", 'b\n"1"'],
+      ["1", "2"],
+    ]);
+  },
+});
+
+Deno.test({
+  name: "CSVParseStream produces the same rows as readCSVRows",
+  async fn() {
+    const content = `1,"2",3\na,"b\n""1",c\n\n😀,,"x,y"`;
+    const options = { columnSeparator: ",", lineSeparator: "\n" };
+
+    const expected = await asyncArrayFrom(
+      readCSVRows(new MyReader(content), options),
+    );
+    const actual = await asyncArrayFrom(
+      bytesStream(content).pipeThrough(new CSVParseStream(options)),
+    );
+
+    assertEquals(actual, expected);
+  },
+});
+
+Deno.test({
+  name: "CSVParseStream errors readable and cancels source on invalid input",
+  async fn() {
+    let cancelled = false;
+    const stream = bytesStream(`1,"2"3\n4,5,6\n7,8,9`, 1, () => {
+      cancelled = true;
+    }).pipeThrough(new CSVParseStream());
+
+    await assertRejects(
+      async () => {
+        await asyncArrayFrom(stream);
+      },
+      Error,
+      "Expected EOF, COLUMN_SEPARATOR, LINE_SEPARATOR; received 3 (line 1, character 6)",
+    );
+    // cancel is propagated through the pipe asynchronously
+    await new Promise((resolve) => setTimeout(resolve));
+    assertEquals(cancelled, true);
+  },
+});
+
+Deno.test({
+  name: "CSVParseStream cancels source when readable is cancelled",
+  async fn() {
+    for (
+      const makeStream of [
+        (): TransformStream<Uint8Array, unknown> => new CSVParseStream(),
+        (): TransformStream<Uint8Array, unknown> => new CSVObjectParseStream(),
+      ]
+    ) {
+      let cancelled = false;
+      let cancelReason: unknown;
+      const source = bytesStream("a,b\n1,2\n3,4\n5,6", 1, (reason) => {
+        cancelled = true;
+        cancelReason = reason;
+      });
+      const readable = source.pipeThrough(makeStream());
+
+      const reader = readable.getReader();
+      assertEquals((await reader.read()).done, false);
+      await reader.cancel("not needed");
+      await new Promise((resolve) => setTimeout(resolve));
+      assertEquals(cancelled, true);
+      assertEquals(cancelReason, "not needed");
+      assertEquals(source.locked, false);
+    }
+  },
+});
+
+Deno.test({
+  name: "readers release source when loop is broken",
+  async fn() {
+    for (
+      const read of [
+        (s: ReadableStream<Uint8Array>) => readCSVRows(s),
+        (s: ReadableStream<Uint8Array>) => readCSVObjects(s),
+        (s: ReadableStream<Uint8Array>) => readCSVStream(s),
+        (s: ReadableStream<Uint8Array>) => readCSV(s),
+      ]
+    ) {
+      let cancelled = false;
+      const source = bytesStream("a,b\n1,2\n3,4\n5,6", 1, () => {
+        cancelled = true;
+      });
+
+      for await (const _ of read(source)) {
+        break;
+      }
+      assertEquals(cancelled, true);
+      assertEquals(source.locked, false);
+    }
+  },
+});
+
+Deno.test({
+  name: "CSVObjectParseStream parses objects with header row",
+  async fn() {
+    const objects = await asyncArrayFrom(
+      bytesStream(`a;b\n1;2\n3;4`).pipeThrough(
+        new CSVObjectParseStream({ columnSeparator: ";" }),
+      ),
+    );
+
+    assertEquals(objects, [{ a: "1", b: "2" }, { a: "3", b: "4" }]);
+  },
+});
+
+Deno.test({
+  name: "parseCSV produces the same rows as readCSVRows",
+  async fn() {
+    const inputs = [
+      `1,"2",3\na,"b\n""1",c\n\n😀,,"x,y"\n\n`,
+      `a\tb\r\n$1$$$\t2`,
+      "",
+    ];
+    const options = {
+      quote: "$",
+      columnSeparator: "\t",
+      lineSeparator: "\r\n",
+    };
+
+    for (const input of inputs) {
+      assertEquals(
+        parseCSV(input),
+        await asyncArrayFrom(readCSVRows(new MyReader(input))),
+      );
+      assertEquals(
+        parseCSV(new TextEncoder().encode(input), options),
+        await asyncArrayFrom(readCSVRows(new MyReader(input), options)),
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "parseCSV throws parsing errors",
+  fn() {
+    assertThrows(
+      () => parseCSV(`1,"2`),
+      Error,
+      "Expected quote, received EOF (line 1, character 5)",
+    );
+  },
+});
+
+Deno.test({
+  name: "parseCSVObjects parses objects with header row",
+  fn() {
+    assertEquals(parseCSVObjects(`a,b\n1,2\n3,4`), [
+      { a: "1", b: "2" },
+      { a: "3", b: "4" },
+    ]);
+    assertEquals(parseCSVObjects(""), []);
+  },
+});
+
+Deno.test({
+  name: "readCSVRows accepts mixed line separators in auto mode",
+  async fn() {
+    const content = `a,b\r\n1,2\n3,"x\ry\r\nz\n"\r4,5\r\r\n6,7\r`;
+    const expected = [
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "x\ry\r\nz\n"],
+      ["4", "5"],
+      ["6", "7"],
+    ];
+
+    for (const chunkSize of [1, 2, 3, 64]) {
+      const rows = await asyncArrayFrom(
+        readCSVRows(bytesStream(content, chunkSize), {
+          lineSeparator: "auto",
+        }),
+      );
+      assertEquals(rows, expected);
+    }
+    assertEquals(parseCSV(content, { lineSeparator: "auto" }), expected);
+  },
+});
+
+Deno.test({
+  name: "readCSVRows counts mixed line separators for error position",
+  async fn() {
+    for (const chunkSize of [1, 2, 64]) {
+      await assertRejects(
+        async () => {
+          await asyncArrayFrom(
+            readCSVRows(
+              bytesStream(`1,2\r\n3,"a\rb\nc\r\n"\r5,"6"7`, chunkSize),
+              {
+                lineSeparator: "auto",
+              },
+            ),
+          );
+        },
+        Error,
+        "Expected EOF, COLUMN_SEPARATOR, LINE_SEPARATOR; received 7 (line 6, character 6)",
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "readCSVRows options.fromLine works in auto line separator mode",
+  async fn() {
+    for (const chunkSize of [1, 64]) {
+      const rows = await asyncArrayFrom(
+        readCSVRows(bytesStream(`a\rb\r\nc\nd`, chunkSize), {
+          lineSeparator: "auto",
+          fromLine: 2,
+        }),
+      );
+      assertEquals(rows, [["c"], ["d"]]);
+    }
+  },
+});
+
+Deno.test({
+  name: "readCSVRows skips malformed records in skip mode",
+  async fn() {
+    const content = `a,b\n1,"2"x,3\n4,5\n6,"7\n8,9`;
+    const invalid: CSVInvalidRecord[] = [];
+
+    for (const chunkSize of [1, 64]) {
+      invalid.length = 0;
+      const rows = await asyncArrayFrom(
+        readCSVRows(bytesStream(content, chunkSize), {
+          errorMode: "skip",
+          onInvalidRecord: (record) => invalid.push(record),
+          _readerIteratorBufferSize: 1,
+          _inputBufferIndexLimit: 1,
+        } as Partial<CommonCSVReaderOptions>),
+      );
+
+      assertEquals(rows, [["a", "b"], ["4", "5"]]);
+      assertEquals(
+        invalid.map(({ error, raw, line, byteOffset }) => ({
+          message: error.message,
+          raw: new TextDecoder().decode(raw),
+          line,
+          byteOffset,
+        })),
+        [
+          {
+            message:
+              "Expected EOF, COLUMN_SEPARATOR, LINE_SEPARATOR; received x (line 2, character 6)",
+            raw: `1,"2"x,3`,
+            line: 2,
+            byteOffset: 4,
+          },
+          {
+            message: "Expected quote, received EOF (line 5, character 4)",
+            raw: `6,"7\n8,9`,
+            line: 4,
+            byteOffset: 17,
+          },
+        ],
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "readCSVObjects collects malformed records in collect mode",
+  async fn() {
+    const objects = readCSVObjects(
+      new MyReader(`a,b\r\n1,2\r\n3,"4"x\r\n"7"8,9\r\n5,"6"`),
+      { lineSeparator: "\r\n", errorMode: "collect" },
+    );
+
+    assertEquals(await asyncArrayFrom(objects), [
+      { a: "1", b: "2" },
+      { a: "5", b: "6" },
+    ]);
+    assertEquals(objects.errors.map(({ line }) => line), [3, 4]);
+    assertEquals(
+      objects.errors.map(({ raw }) => new TextDecoder().decode(raw)),
+      [`3,"4"x`, `"7"8,9`],
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVStream and readCSV drop cells of malformed record in skip mode",
+  async fn() {
+    const content = `a,b\n1,"2"x\n3,4`;
+
+    const tokens = await asyncArrayFrom(
+      readCSVStream(new MyReader(content), { errorMode: "skip" }),
+    );
+    assertEquals(tokens, ["a", "b", newLine, "3", "4", newLine]);
+
+    const rows = await asyncArrayFrom2(
+      readCSV(new MyReader(content), { errorMode: "collect" }),
+    );
+    assertEquals(rows, [["a", "b"], ["3", "4"]]);
+  },
+});
+
+Deno.test({
+  name: "parseCSV skips malformed records in skip mode",
+  fn() {
+    const lines: number[] = [];
+    const rows = parseCSV(`1,2\n3,"4"5\n6,7`, {
+      errorMode: "skip",
+      onInvalidRecord: ({ line }) => lines.push(line),
+    });
+
+    assertEquals(rows, [["1", "2"], ["6", "7"]]);
+    assertEquals(lines, [2]);
+  },
+});
+
+Deno.test({
+  name: "readCSVRows rejects with CSVParseError",
+  async fn() {
+    const cases: Array<[string, CSVParseErrorCode, number, number, number]> = [
+      [`a,b\n1,2"3,4,5`, "UNEXPECTED_QUOTE", 2, 4, 7],
+      [`a,b\n1,"2`, "UNTERMINATED_QUOTE", 2, 5, 8],
+      [`a,b\n"1\n2"x`, "INVALID_AFTER_QUOTE", 3, 3, 9],
+    ];
+
+    for (const [content, code, line, column, byteOffset] of cases) {
+      const err = await assertRejects(
+        () => asyncArrayFrom(readCSVRows(new MyReader(content))),
+        CSVParseError,
+      );
+      assertEquals(
+        {
+          code: err.code,
+          line: err.line,
+          column: err.column,
+          byteOffset: err.byteOffset,
+        },
+        { code, line, column, byteOffset },
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "CSVParseError contains input around the error",
+  fn() {
+    const err = assertThrows(
+      () => parseCSV(`${"a".repeat(30)}\n1,"2"x,3\n${"b".repeat(30)}`),
+      CSVParseError,
+    );
+
+    assertEquals(err.snippet, `${"a".repeat(14)}\n1,"2"x,3\n${"b".repeat(16)}`);
+  },
+});
+
+Deno.test({
+  name: "readCSVRows returns record info with withInfo option",
+  async fn() {
+    const content = `a,b\r\n\r\n1,"2\r\n3"\r\n4,5`;
+    const expected = [
+      {
+        row: ["a", "b"],
+        record: 0,
+        startLine: 1,
+        endLine: 1,
+        startByte: 0,
+        endByte: 3,
+      },
+      {
+        row: ["1", "2\r\n3"],
+        record: 1,
+        startLine: 3,
+        endLine: 4,
+        startByte: 7,
+        endByte: 15,
+      },
+      {
+        row: ["4", "5"],
+        record: 2,
+        startLine: 5,
+        endLine: 5,
+        startByte: 17,
+        endByte: 20,
+      },
+    ];
+    const options = { lineSeparator: "\r\n", withInfo: true } as const;
+
+    assertEquals(
+      await asyncArrayFrom(readCSVRows(bytesStream(content, 1), options)),
+      expected,
+    );
+    assertEquals(parseCSV(content, options), expected);
+  },
+});
+
+Deno.test({
+  name: "readCSVObjects returns record info with withInfo option",
+  async fn() {
+    const content = `a,b\n1,"x\ny"\n3,4\n`;
+    const expected = [
+      {
+        row: { a: "1", b: "x\ny" },
+        record: 1,
+        startLine: 2,
+        endLine: 3,
+        startByte: 4,
+        endByte: 11,
+      },
+      {
+        row: { a: "3", b: "4" },
+        record: 2,
+        startLine: 4,
+        endLine: 4,
+        startByte: 12,
+        endByte: 15,
+      },
+    ];
+
+    assertEquals(
+      await asyncArrayFrom(
+        readCSVObjects(new MyReader(content), { withInfo: true }),
+      ),
+      expected,
+    );
+    assertEquals(parseCSVObjects(content, { withInfo: true }), expected);
+  },
+});
+
+Deno.test({
+  name: "readCSVRows resumes from checkpoint",
+  async fn() {
+    const content = `\ufeffa,b\n1,"x\ny"\n\n3,4\n5,"6"7`;
+    const rows = readCSVRows(new MyReader(content));
+    const iterator = rows[Symbol.asyncIterator]();
+    await iterator.next();
+    await iterator.next();
+    const checkpoint = rows.checkpoint();
+
+    assertEquals(checkpoint, { byteOffset: 15, line: 4, record: 2 });
+
+    const resumed = readCSVRows(new MyReader(content), {
+      resumeFrom: checkpoint,
+      withInfo: true,
+    });
+    const resumedIterator = resumed[Symbol.asyncIterator]();
+    assertEquals((await resumedIterator.next()).value, {
+      row: ["3", "4"],
+      record: 2,
+      startLine: 5,
+      endLine: 5,
+      startByte: 16,
+      endByte: 19,
+    });
+    await assertRejects(
+      () => resumedIterator.next(),
+      CSVParseError,
+      "Expected EOF, COLUMN_SEPARATOR, LINE_SEPARATOR; received 7 (line 6, character 6)",
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVObjects resumes from checkpoint with header",
+  async fn() {
+    const content = `a,b\n1,2\n3,4\n5,6`;
+    const objects = readCSVObjects(new MyReader(content));
+    await objects[Symbol.asyncIterator]().next();
+    const checkpoint: CSVCheckpoint = objects.checkpoint();
+
+    assertEquals(checkpoint, {
+      byteOffset: 8,
+      line: 3,
+      record: 2,
+      header: ["a", "b"],
+    });
+    assertEquals(
+      await asyncArrayFrom(
+        readCSVObjects(new MyReader(content), { resumeFrom: checkpoint }),
+      ),
+      [{ a: "3", b: "4" }, { a: "5", b: "6" }],
+    );
+    assertEquals(
+      parseCSV(content, { resumeFrom: checkpoint, fromLine: 3 }),
+      [["5", "6"]],
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVRows requires seekable reader to resume",
+  fn() {
+    assertThrows(
+      () =>
+        readCSVRows(bytesStream("a,b"), {
+          resumeFrom: { byteOffset: 1, line: 1, record: 0 },
+        }),
+      TypeError,
+      "resumeFrom requires seekable reader",
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVRows options.fromRecord and options.toRecord count records",
+  async fn() {
+    const content = `a,"1\n2"\nb,3\n\nc,"4\n5\n6"\nd,7`;
+
+    assertEquals(
+      await asyncArrayFrom(
+        readCSVRows(new MyReader(content), { fromRecord: 1, toRecord: 3 }),
+      ),
+      [["b", "3"], ["c", "4\n5\n6"]],
+    );
+    assertEquals(parseCSV(content, { fromRecord: 3 }), [["d", "7"]]);
+    assertEquals(parseCSV(content, { toRecord: 0 }), []);
+  },
+});
+
+Deno.test({
+  name: "readCSVRows byte ranges don't share records",
+  async fn() {
+    const content = `a,"1\n2"\nb,3\n\nc,"4\n5\n6"\nd,7\n`;
+    const expected = parseCSV(content);
+
+    for (let split = 0; split <= content.length; split++) {
+      const first = await asyncArrayFrom(
+        readCSVRows(new MyReader(content), { toByte: split }),
+      );
+      const second = parseCSV(content, { fromByte: split });
+      assertEquals([...first, ...second], expected);
+    }
+
+    assertEquals(parseCSV(content, { fromByte: 3, toByte: 14 }), [
+      ["b", "3"],
+      ["c", "4\n5\n6"],
+    ]);
+  },
+});
+
+Deno.test({
+  name: "readCSVRows skips comment lines",
+  async fn() {
+    const content = `# header comment\na,b\n"#1",2\n#3,4\n//5\n#`;
+
+    for (const chunkSize of [1, 64]) {
+      const comments: Array<[string, Omit<CSVCellInfo, "quoted">]> = [];
+      const rows = await asyncArrayFrom(
+        readCSVRows(bytesStream(content, chunkSize), {
+          comment: "#",
+          onComment: (comment, info) => comments.push([comment, info]),
+          _readerIteratorBufferSize: 1,
+          _inputBufferIndexLimit: 1,
+        } as Partial<CommonCSVReaderOptions>),
+      );
+
+      assertEquals(rows, [["a", "b"], ["#1", "2"], ["//5"]]);
+      assertEquals(comments, [
+        [" header comment", { line: 1, character: 1 }],
+        ["3,4", { line: 4, character: 1 }],
+        ["", { line: 6, character: 1 }],
+      ]);
+    }
+
+    assertEquals(
+      parseCSV("a\r\n//b\r\nc", { comment: "//", lineSeparator: "auto" }),
+      [
+        ["a"],
+        ["c"],
+      ],
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVRows options.emptyLines emits or rejects empty lines",
+  async fn() {
+    const content = `a,b\n\n,\n1,2\n\n`;
+
+    assertEquals(parseCSV(content), [["a", "b"], ["", ""], ["1", "2"]]);
+    assertEquals(parseCSV(content, { emptyLines: "emit" }), [
+      ["a", "b"],
+      [""],
+      ["", ""],
+      ["1", "2"],
+      [""],
+    ]);
+
+    const err = await assertRejects(
+      () =>
+        asyncArrayFrom(
+          readCSVRows(new MyReader(content), { emptyLines: "error" }),
+        ),
+      CSVParseError,
+      "Empty line (line 2, character 1)",
+    );
+    assertEquals(err.code, "EMPTY_LINE");
+
+    const rows = readCSVRows(new MyReader(content), {
+      emptyLines: "error",
+      errorMode: "collect",
+    });
+    assertEquals(await asyncArrayFrom(rows), [["a", "b"], ["", ""], [
+      "1",
+      "2",
+    ]]);
+    assertEquals(rows.errors.map(({ line }) => line), [2, 5]);
+  },
+});
+
+Deno.test({
+  name: "readCSVRows options.skipBlankRecords drops blank records",
+  async fn() {
+    const content = `a,b\n , \n"",""\n,x\n \n1,2`;
+
+    assertEquals(
+      await asyncArrayFrom(
+        readCSVRows(new MyReader(content), { skipBlankRecords: true }),
+      ),
+      [["a", "b"], ["", "x"], ["1", "2"]],
+    );
+    assertEquals(
+      parseCSV(content, { skipBlankRecords: true, fromRecord: 1 }),
+      [["", "x"], ["1", "2"]],
+    );
+    assertEquals(
+      parseCSVObjects(content, { skipBlankRecords: true }),
+      [{ a: "", b: "x" }, { a: "1", b: "2" }],
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVRows options.trim removes spaces from unquoted cells",
+  async fn() {
+    const content = ` a ,\tb\t, c d \n  ,x`;
+
+    for (const chunkSize of [1, 64]) {
+      assertEquals(
+        await asyncArrayFrom(
+          readCSVRows(bytesStream(content, chunkSize), {
+            trim: "both",
+            _readerIteratorBufferSize: 1,
+            _inputBufferIndexLimit: 1,
+          } as Partial<CommonCSVReaderOptions>),
+        ),
+        [["a", "b", "c d"], ["", "x"]],
+      );
+    }
+
+    assertEquals(parseCSV(content, { trim: "left" }), [
+      ["a ", "b\t", "c d "],
+      ["", "x"],
+    ]);
+    assertEquals(parseCSV(content, { trim: "right" }), [
+      [" a", "\tb", " c d"],
+      ["", "x"],
+    ]);
+    assertEquals(
+      parseCSV(" a b \t c ", { trim: "both", columnSeparator: "\t" }),
+      [
+        ["a b", "c"],
+      ],
+    );
+  },
+});
+
+Deno.test({
+  name:
+    "readCSVRows options.trimAroundQuotes allows spaces around quoted cells",
+  async fn() {
+    const content = `"a" , "b"\t\n  "c d" ,  e `;
+
+    for (const chunkSize of [1, 64]) {
+      assertEquals(
+        await asyncArrayFrom(
+          readCSVRows(bytesStream(content, chunkSize), {
+            trimAroundQuotes: true,
+            _readerIteratorBufferSize: 1,
+            _inputBufferIndexLimit: 1,
+          } as Partial<CommonCSVReaderOptions>),
+        ),
+        [["a", "b"], ["c d", "  e "]],
+      );
+    }
+
+    assertEquals(
+      parseCSV(content, { trimAroundQuotes: true, trim: "both" }),
+      [["a", "b"], ["c d", "e"]],
+    );
+    assertThrows(
+      () => parseCSV(`"a" x,b`, { trimAroundQuotes: true }),
+      CSVParseError,
+      "Expected EOF, COLUMN_SEPARATOR, LINE_SEPARATOR; received x",
+    );
+    assertThrows(
+      () => parseCSV(`"a" ,b`, { trim: "both" }),
+      CSVParseError,
+      "received  ",
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVRows options.trim doesn't open quoted cell after spaces",
+  async fn() {
+    for (const trim of ["left", "both"] as const) {
+      await assertRejects(
+        () =>
+          asyncArrayFrom(readCSVRows(bytesStream(` "a",b`, 1024), { trim })),
+        CSVParseError,
+        "Unexpected quote in unquoted field (line 1, character 2)",
+      );
+      assertThrows(
+        () => parseCSV(` "a",b`, { trim }),
+        CSVParseError,
+        "Unexpected quote in unquoted field (line 1, character 2)",
+      );
+      assertEquals(
+        parseCSV(` "a",b`, { trim, trimAroundQuotes: true }),
+        [["a", "b"]],
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "readCSVObjects options.columns reads input without header",
+  async fn() {
+    const content = `1,2\n3,4`;
+
+    assertEquals(
+      await asyncArrayFrom(
+        readCSVObjects(new MyReader(content), { columns: ["a", "b"] }),
+      ),
+      [{ a: "1", b: "2" }, { a: "3", b: "4" }],
+    );
+    assertEquals(
+      parseCSVObjects(content, {
+        columns: ["a", "b"],
+        schema: { b: csvTypes.int },
+        withInfo: true,
+      }).map(({ row, record }) => ({ row, record })),
+      [{ row: { a: "1", b: 2 }, record: 0 }, {
+        row: { a: "3", b: 4 },
+        record: 1,
+      }],
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVObjects options.mapHeader renames and drops columns",
+  fn() {
+    const content = ` ID ,Full Name,internal\n1,Ann,x`;
+
+    assertEquals(
+      parseCSVObjects(content, {
+        mapHeader: (name, index) =>
+          index === 2 ? null : name.trim().toLowerCase(),
+      }),
+      [{ id: "1", "full name": "Ann" }],
+    );
+  },
+});
+
+Deno.test({
+  name:
+    "readCSVObjects options.duplicateHeaders handles columns with the same name",
+  async fn() {
+    const content = `id,Amount,Amount,Amount_2,Amount\n1,2,3,4,5`;
+
+    await assertRejects(
+      () => asyncArrayFrom(readCSVObjects(new MyReader(content))),
+      Error,
+      'Duplicate header "Amount" in column 3',
+    );
+    assertEquals(parseCSVObjects(content, { duplicateHeaders: "suffix" }), [
+      { id: "1", Amount: "2", Amount_3: "3", Amount_2: "4", Amount_4: "5" },
+    ]);
+    assertEquals(parseCSVObjects(content, { duplicateHeaders: "array" }), [
+      { id: "1", Amount: ["2", "3", "5"], Amount_2: "4" },
+    ]);
+  },
+});
+
+Deno.test({
+  name: "readCSVRows options.columnCount checks number of cells",
+  async fn() {
+    const content = `a,b,c\n1,2\n3,4,5,6\n7,8,9`;
+
+    const err = await assertRejects(
+      () =>
+        asyncArrayFrom(
+          readCSVRows(new MyReader(content), { columnCount: "strict" }),
+        ),
+      CSVParseError,
+      "Expected 3 cells, received 2 (line 2, character 4)",
+    );
+    assertEquals(err.code, "COLUMN_COUNT");
+
+    const rows = readCSVRows(new MyReader(content), {
+      columnCount: "strict",
+      errorMode: "collect",
+    });
+    assertEquals(await asyncArrayFrom(rows), [["a", "b", "c"], [
+      "7",
+      "8",
+      "9",
+    ]]);
+    assertEquals(rows.errors.map(({ line }) => line), [2, 3]);
+
+    assertEquals(parseCSV(content, { columnCount: "pad", padValue: "-" }), [
+      ["a", "b", "c"],
+      ["1", "2", "-"],
+      ["3", "4", "5", "6"],
+      ["7", "8", "9"],
+    ]);
+    assertEquals(parseCSV(content, { columnCount: "truncate" }), [
+      ["a", "b", "c"],
+      ["1", "2"],
+      ["3", "4", "5"],
+      ["7", "8", "9"],
+    ]);
+  },
+});
+
+Deno.test({
+  name: "readCSVObjects options.columnCount uses header",
+  async fn() {
+    const content = `1,2\n3\n4,5,6,7`;
+
+    assertEquals(
+      await asyncArrayFrom(
+        readCSVObjects(new MyReader(content), {
+          columns: ["a", "b"],
+          columnCount: "pad",
+        }),
+      ),
+      [{ a: "1", b: "2" }, { a: "3", b: "" }, { a: "4", b: "5" }],
+    );
+    assertEquals(
+      parseCSVObjects(`1,2\n4,5,6,7`, {
+        columns: ["a", "b"],
+        columnCount: "rest",
+        restKey: "extra",
+      }),
+      [{ a: "1", b: "2" }, { a: "4", b: "5", extra: ["6", "7"] }],
+    );
+    assertThrows(
+      () => parseCSVObjects(`a,b\n1,2,3`, { columnCount: "strict" }),
+      CSVParseError,
+      "Expected 2 cells, received 3",
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVRows options.escape makes the next character literal",
+  async fn() {
+    const content = `a\\,b,"c \\"d\\" \\\\",\\"e\n"f\\\ng",h\\`;
+
+    for (const chunkSize of [1, 64]) {
+      assertEquals(
+        await asyncArrayFrom(
+          readCSVRows(bytesStream(content, chunkSize), {
+            escape: "\\",
+            _readerIteratorBufferSize: 1,
+            _inputBufferIndexLimit: 1,
+          } as Partial<CommonCSVReaderOptions>),
+        ),
+        [["a,b", 'c "d" \\', '"e'], ["f\ng", "h\\"]],
+      );
+    }
+
+    assertEquals(parseCSV(`"a""b",c`, { escape: '"' }), [['a"b', "c"]]);
+    assertEquals(
+      parseCSV(`"a\\\nb",c\nd`, { escape: "\\", withInfo: true }).map((
+        { row, startLine, endLine },
+      ) => ({ row, startLine, endLine })),
+      [
+        { row: ["a\nb", "c"], startLine: 1, endLine: 2 },
+        { row: ["d"], startLine: 3, endLine: 3 },
+      ],
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVRows options.nullValue tells null from quoted value",
+  async fn() {
+    const content = `a,"",\\N,"\\N"\nNULL,x,,`;
+    const quoted: boolean[] = [];
+
+    new CSVReader(new TextEncoder().encode(content), {
+      onCell: (_, info) => quoted.push(info.quoted),
+    }).read();
+
+    assertEquals(quoted, [
+      false,
+      true,
+      false,
+      true,
+      false,
+      false,
+      false,
+      false,
+    ]);
+    assertEquals(
+      await asyncArrayFrom(
+        readCSVRows(new MyReader(content), { nullValue: "\\N" }),
+      ),
+      [["a", "", null, "\\N"], ["NULL", "x", "", ""]],
+    );
+    assertEquals(parseCSV(content, { nullValue: "" }), [
+      ["a", "", "\\N", "\\N"],
+      ["NULL", "x", null, null],
+    ]);
+    assertEquals(
+      parseCSVObjects(`a,b\nNULL,"NULL"`, { nullValue: "NULL" }),
+      [{ a: null, b: "NULL" }],
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVRows detects UTF-16 by BOM",
+  async fn() {
+    // bytes of "∂Ā" contain quote at odd offset in UTF-16LE
+    const content = `a,"b ""1""\r\n",∂Ā\n  c  ,d\n`;
+    const expected = [["a", 'b "1"\r\n', "∂Ā"], ["c", "d"]];
+
+    for (
+      const [encoding, bom] of [["utf-16le", [0xff, 0xfe]], [
+        "utf-16be",
+        [0xfe, 0xff],
+      ]] as const
+    ) {
+      const bytes = concat([
+        new Uint8Array(bom),
+        getUint8Array(content, encoding),
+      ]);
+      const rows = await asyncArrayFrom(
+        readCSVRows(
+          bytesStream(bytes, 1),
+          {
+            trim: "both",
+            _readerIteratorBufferSize: 1,
+            _inputBufferIndexLimit: 1,
+          } as Partial<CommonCSVReaderOptions>,
+        ),
+      );
+
+      assertEquals(rows, expected);
+      assertEquals(parseCSV(bytes, { trim: "both" }), expected);
+    }
+  },
+});
+
+Deno.test({
+  name: "readCSVRows options.encoding encodes separators in UTF-16",
+  async fn() {
+    const bytes = getUint8Array("a;'b;c'\r\n#x\r1;2", "utf-16le");
+
+    const rows = await asyncArrayFrom(
+      readCSVRows(bytesStream(bytes, 3), {
+        encoding: "utf-16le",
+        columnSeparator: ";",
+        lineSeparator: "auto",
+        quote: "'",
+        comment: "#",
+      }),
+    );
+
+    assertEquals(rows, [["a", "b;c"], ["1", "2"]]);
+  },
+});
+
+async function compress(content: string, format: CompressionFormat) {
+  const stream = ReadableStream.from([new TextEncoder().encode(content)])
+    .pipeThrough(new CompressionStream(format));
+  return concat(await Array.fromAsync(stream));
+}
+
+Deno.test({
+  name: "readCSVRows options.compression decompresses input",
+  async fn() {
+    const content = `a,"b\n""1"""\n1,2`;
+    const expected = [["a", 'b\n"1"'], ["1", "2"]];
+    const gzip = await compress(content, "gzip");
+
+    for (const compression of ["gzip", "auto"] as const) {
+      assertEquals(
+        await asyncArrayFrom(
+          readCSVRows(
+            bytesStream(gzip, 1),
+            {
+              compression,
+              _readerIteratorBufferSize: 1,
+              _inputBufferIndexLimit: 1,
+            } as Partial<CommonCSVReaderOptions>,
+          ),
+        ),
+        expected,
+      );
+    }
+    assertEquals(
+      await asyncArrayFrom(
+        readCSVRows(await compress(content, "deflate"), {
+          compression: "deflate",
+        }),
+      ),
+      expected,
+    );
+    assertEquals(
+      await asyncArrayFrom(
+        readCSVRows(new MyReader(content), { compression: "auto" }),
+      ),
+      expected,
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVRows rejects corrupted compressed input",
+  async fn() {
+    const gzip = await compress("a,b\n1,2", "gzip");
+
+    await assertRejects(() =>
+      asyncArrayFrom(
+        readCSVRows(gzip.subarray(0, gzip.length - 4), {
+          compression: "gzip",
+        }),
+      )
+    );
+    assertThrows(
+      () => parseCSV(gzip, { compression: "auto" }),
+      TypeError,
+      "Compressed input couldn't be parsed synchronously",
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVRows rejects resumeFrom with compressed input",
+  async fn() {
+    const gzip = await compress("a,b\n1,2", "gzip");
+
+    for (const compression of ["gzip", "deflate", "auto"] as const) {
+      assertThrows(
+        () =>
+          readCSVRows(gzip, {
+            compression,
+            resumeFrom: { byteOffset: 4, line: 2, record: 1 },
+          }),
+        TypeError,
+        "resumeFrom doesn't support compressed input",
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "readCSVRows stops reading when limits are exceeded",
+  async fn() {
+    const cases: Array<
+      [string, Partial<CommonCSVReaderOptions>, CSVParseErrorCode, number]
+    > = [
+      [`a,"${"b".repeat(100)}`, { maxCellBytes: 10 }, "MAX_CELL_BYTES", 1],
+      [`a,b\nc,d,e`, { maxColumns: 2 }, "MAX_COLUMNS", 2],
+      [
+        `a,b\n${"c".repeat(100)}`,
+        { maxRecordBytes: 10 },
+        "MAX_RECORD_BYTES",
+        2,
+      ],
+      [`a,b\nc,d\ne,f`, { maxRecords: 2 }, "MAX_RECORDS", 3],
+      [
+        `#abcdefgh\nab`,
+        { comment: "#", maxRecordBytes: 4 },
+        "MAX_RECORD_BYTES",
+        1,
+      ],
+    ];
+
+    for (const [content, options, code, line] of cases) {
+      const err = await assertRejects(
+        () =>
+          asyncArrayFrom(
+            readCSVRows(
+              bytesStream(content, 1),
+              {
+                ...options,
+                // limits aren't malformed records, so they aren't skipped
+                errorMode: "skip",
+                _readerIteratorBufferSize: 1,
+                _inputBufferIndexLimit: 1,
+              } as Partial<CommonCSVReaderOptions>,
+            ),
+          ),
+        CSVParseError,
+      );
+      assertEquals([err.code, err.line], [code, line]);
+    }
+
+    assertEquals(
+      parseCSV(`a,b\nc,d\n`, {
+        maxCellBytes: 1,
+        maxColumns: 2,
+        maxRecordBytes: 3,
+        maxRecords: 2,
+      }),
+      [["a", "b"], ["c", "d"]],
+    );
+    // the whole comment is in memory
+    assertThrows(
+      () => parseCSV(`#abcdefgh\nab`, { comment: "#", maxRecordBytes: 4 }),
+      CSVParseError,
+      "Record is longer than 4 bytes",
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVRows options.signal rejects pending reads and cancels source",
+  async fn() {
+    let cancelReason: unknown;
+    const source = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("a,b\n1,"));
+      },
+      // the rest of input never comes
+      pull: () => new Promise(() => {}),
+      cancel(reason) {
+        cancelReason = reason ?? "cancelled";
+      },
+    });
+    const controller = new AbortController();
+    const rows = readCSVRows(source, { signal: controller.signal })
+      [Symbol.asyncIterator]();
+
+    assertEquals(await rows.next(), { done: false, value: ["a", "b"] });
+    const pending = rows.next();
+    controller.abort();
+
+    await assertRejects(() => pending, DOMException, "aborted");
+    await assertRejects(() => rows.next(), DOMException, "aborted");
+    assertEquals(cancelReason, "cancelled");
+
+    const err = assertThrows(
+      () => parseCSV("a,b", { signal: AbortSignal.abort("stopped") }),
+      Error,
+      "CSV reading is aborted",
+    );
+    assertEquals(err.cause, "stopped");
+  },
+});
@@ -0,0 +1,154 @@
+/** Converts cell value, throws when value is invalid */
+export type CSVConverter<T> = (value: string) => T;
+
+/** Converters for header names */
+export type CSVSchema = { readonly [key: string]: CSVConverter<unknown> };
+
+/** Object produced by `readCSVObjects` with schema, columns missing in the schema stay strings */
+export type CSVSchemaObject<S extends CSVSchema> =
+  & { -readonly [K in keyof S]: ReturnType<S[K]> }
+  & { [key: string]: unknown };
+
+/** Error thrown when cell couldn't be converted by schema */
+export class CSVSchemaError extends Error {
+  /** Header of the column */
+  header: string;
+  /** Cell value */
+  value: string;
+  /** Number of the data row, starting from 1, or 0 for a column missing in the header */
+  row: number;
+  /** Line where the cell starts, starting from 1, or 0 when it is unknown */
+  line: number;
+  /** Character in the line where the cell starts, starting from 1, or 0 when it is unknown */
+  character: number;
+
+  constructor(
+    message: string,
+    details: {
+      header: string;
+      value: string;
+      row: number;
+      line: number;
+      character: number;
+      cause: unknown;
+    },
+  ) {
+    super(message, { cause: details.cause });
+    this.name = "CSVSchemaError";
+    this.header = details.header;
+    this.value = details.value;
+    this.row = details.row;
+    this.line = details.line;
+    this.character = details.character;
+  }
+}
+
+const intRegExp = /^[+-]?\d+$/;
+const floatRegExp = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+const isoDateRegExp =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/** `Date` rolls over days like 2021-02-30, so the date part is compared */
+function isCalendarDate(value: string): boolean {
+  const year = Number(value.slice(0, 4));
+  const month = Number(value.slice(5, 7));
+  const day = Number(value.slice(8, 10));
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day;
+}
+
+/** Built-in converters of `csvTypes` */
+export interface CSVTypes {
+  /** Integer number */
+  int(value: string): number;
+  /** Floating point number */
+  float(value: string): number;
+  /** `true`, `false`, `1` or `0` in any case */
+  boolean(value: string): boolean;
+  /** ISO 8601 date or date with time */
+  isoDate(value: string): Date;
+  /** One of listed values */
+  enum<const T extends readonly string[]>(values: T): CSVConverter<T[number]>;
+  /** Empty cell becomes `null`, others are converted */
+  nullable<T>(converter: CSVConverter<T>): CSVConverter<T | null>;
+}
+
+/** Built-in converters:
+ *
+ *       const schema = {
+ *         id: csvTypes.int,
+ *         price: csvTypes.float,
+ *         active: csvTypes.boolean,
+ *         createdAt: csvTypes.isoDate,
+ *         status: csvTypes.enum(["new", "done"]),
+ *         parentId: csvTypes.nullable(csvTypes.int),
+ *       };
+ */
+export const csvTypes: CSVTypes = {
+  /** Integer number */
+  int(value: string): number {
+    if (!intRegExp.test(value)) {
+      throw new Error("expected integer");
+    }
+    const n = Number(value);
+    // larger integers lose precision
+    if (!Number.isSafeInteger(n)) {
+      throw new Error("expected safe integer");
+    }
+    return n;
+  },
+
+  /** Floating point number */
+  float(value: string): number {
+    if (!floatRegExp.test(value)) {
+      throw new Error("expected number");
+    }
+    return Number(value);
+  },
+
+  /** `true`, `false`, `1` or `0` in any case */
+  boolean(value: string): boolean {
+    switch (value.toLowerCase()) {
+      case "true":
+      case "1":
+        return true;
+      case "false":
+      case "0":
+        return false;
+      default:
+        throw new Error("expected boolean");
+    }
+  },
+
+  /** ISO 8601 date or date with time */
+  isoDate(value: string): Date {
+    const date = new Date(value);
+    if (
+      !isoDateRegExp.test(value) || isNaN(date.getTime()) ||
+      !isCalendarDate(value)
+    ) {
+      throw new Error("expected ISO date");
+    }
+    return date;
+  },
+
+  /** One of listed values */
+  enum<const T extends readonly string[]>(
+    values: T,
+  ): CSVConverter<T[number]> {
+    return (value) => {
+      if (!values.includes(value)) {
+        throw new Error(`expected one of ${values.join(", ")}`);
+      }
+      return value;
+    };
+  },
+
+  /** Empty cell becomes `null`, others are converted */
+  nullable<T>(converter: CSVConverter<T>): CSVConverter<T | null> {
+    return (value) => value === "" ? null : converter(value);
+  },
+};
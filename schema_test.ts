@@ -0,0 +1,169 @@
+import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import { assertThrows } from "@std/assert/throws";
+import { parseCSVObjects, readCSVObjects } from "./reader.ts";
+import { CSVSchemaError, csvTypes } from "./schema.ts";
+import { asyncArrayFrom } from "./utils.ts";
+
+function stream(content: string) {
+  return ReadableStream.from([new TextEncoder().encode(content)]);
+}
+
+Deno.test({
+  name: "csvTypes converts valid values",
+  fn() {
+    assertEquals(csvTypes.int("-42"), -42);
+    assertEquals(csvTypes.float("1.5e3"), 1500);
+    assertEquals(csvTypes.float(".5"), 0.5);
+    assertEquals(csvTypes.boolean("TRUE"), true);
+    assertEquals(csvTypes.boolean("0"), false);
+    assertEquals(
+      csvTypes.isoDate("2020-01-02T03:04:05Z"),
+      new Date(Date.UTC(2020, 0, 2, 3, 4, 5)),
+    );
+    assertEquals(
+      csvTypes.isoDate("2020-02-29"),
+      new Date(Date.UTC(2020, 1, 29)),
+    );
+    assertEquals(csvTypes.enum(["a", "b"])("b"), "b");
+    assertEquals(csvTypes.nullable(csvTypes.int)(""), null);
+    assertEquals(csvTypes.nullable(csvTypes.int)("1"), 1);
+  },
+});
+
+Deno.test({
+  name: "csvTypes throws on invalid values",
+  fn() {
+    assertThrows(() => csvTypes.int("1.5"), Error, "expected integer");
+    assertThrows(() => csvTypes.int(""), Error, "expected integer");
+    assertThrows(
+      () => csvTypes.int("99999999999999999999"),
+      Error,
+      "expected safe integer",
+    );
+    assertThrows(() => csvTypes.float("NaN"), Error, "expected number");
+    assertThrows(() => csvTypes.boolean("yes"), Error, "expected boolean");
+    assertThrows(() => csvTypes.isoDate("02/01/2020"), Error, "ISO date");
+    assertThrows(() => csvTypes.isoDate("2020-13-45"), Error, "ISO date");
+    assertThrows(() => csvTypes.isoDate("2021-02-30"), Error, "ISO date");
+    assertThrows(
+      () => csvTypes.isoDate("2021-04-31T10:00:00Z"),
+      Error,
+      "ISO date",
+    );
+    assertThrows(
+      () => csvTypes.enum(["a", "b"])("c"),
+      Error,
+      "expected one of a, b",
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVObjects converts values with schema",
+  async fn() {
+    const schema = {
+      id: csvTypes.int,
+      active: csvTypes.boolean,
+      parent: csvTypes.nullable(csvTypes.int),
+      tags: (value: string) => value.split("|"),
+    };
+
+    const rows = await asyncArrayFrom(
+      readCSVObjects(stream(`id,name,active,parent,tags\n1,a,true,,x|y`), {
+        schema,
+      }),
+    );
+    const id: number = rows[0].id;
+    const parent: number | null = rows[0].parent;
+
+    assertEquals(id, 1);
+    assertEquals(parent, null);
+    assertEquals(rows, [
+      { id: 1, name: "a", active: true, parent: null, tags: ["x", "y"] },
+    ]);
+  },
+});
+
+Deno.test({
+  name: "readCSVObjects reports position of invalid value",
+  async fn() {
+    const err = await assertRejects(
+      () =>
+        asyncArrayFrom(
+          readCSVObjects(stream(`name,age\na,1\n"b\nc",x`), {
+            schema: { age: csvTypes.int },
+          }),
+        ),
+      CSVSchemaError,
+      `Invalid value "x" in column "age": expected integer (row 2, line 4, character 4)`,
+    );
+
+    assertEquals(
+      { ...err },
+      {
+        name: "CSVSchemaError",
+        header: "age",
+        value: "x",
+        row: 2,
+        line: 4,
+        character: 4,
+      },
+    );
+  },
+});
+
+Deno.test({
+  name: "parseCSVObjects converts values with schema",
+  fn() {
+    assertEquals(
+      parseCSVObjects(`a,b\n1,2`, {
+        schema: { a: csvTypes.float, c: csvTypes.nullable(csvTypes.int) },
+      }),
+      [{ a: 1, b: "2", c: null }],
+    );
+    assertThrows(
+      () => parseCSVObjects(`a\n1\nz`, { schema: { a: csvTypes.int } }),
+      CSVSchemaError,
+      "(row 2, line 3, character 1)",
+    );
+  },
+});
+
+Deno.test({
+  name: "readCSVObjects reports column of schema missing in header once",
+  async fn() {
+    const schema = { a: csvTypes.int, b: csvTypes.int };
+
+    const error = await assertRejects(
+      () =>
+        asyncArrayFrom(
+          readCSVObjects(stream(`#note\na\n1\n2`), { schema, comment: "#" }),
+        ),
+      CSVSchemaError,
+      'Column "b" of schema is missing in header: expected integer',
+    );
+    assertEquals(
+      [error.header, error.value, error.row, error.line, error.character],
+      ["b", "", 0, 2, 1],
+    );
+    const syncError = assertThrows(
+      () => parseCSVObjects(`a\n1\n2`, { schema }),
+      CSVSchemaError,
+      'Column "b" of schema is missing in header',
+    );
+    assertEquals(
+      [syncError.header, syncError.row, syncError.line, syncError.character],
+      ["b", 0, 1, 1],
+    );
+    const columnsError = assertThrows(
+      () => readCSVObjects(stream(`1\n2`), { schema, columns: ["a"] }),
+      CSVSchemaError,
+      'Column "b" of schema is missing in header',
+    );
+    assertEquals(
+      [columnsError.row, columnsError.line, columnsError.character],
+      [0, 0, 0],
+    );
+  },
+});
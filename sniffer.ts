@@ -0,0 +1,329 @@
+import type { Reader } from "@std/io/types";
+
+/** CSV dialect detected by `sniffCSVDialect` */
+export interface CSVDialect {
+  columnSeparator: string;
+  lineSeparator: string;
+  quote: string;
+  /** Whether the first row looks like a header */
+  hasHeader: boolean;
+  /** How well the sample matches the dialect, from 0 to 1 */
+  confidence: number;
+}
+
+/** Options for `sniffCSVDialect` */
+export interface CSVSnifferOptions {
+  /** How many bytes to read from reader */
+  sampleSize: number;
+  /** Sample is the beginning of bigger input, so the last line could be incomplete */
+  partial: boolean;
+  /** Encoding of the sample, any label supported by `TextDecoder`,
+   * UTF-8 and UTF-16 byte order marks override it
+   */
+  encoding: string;
+}
+
+const defaultSnifferSampleSize = 64 * 1024;
+
+const columnSeparatorCandidates = [",", ";", "\t", "|"];
+const quoteCandidates = ['"', "'"];
+// decimal comma is common for semicolon separated files
+const numberRegExp = /^[+-]?(\d+([.,]\d*)?|[.,]\d+)(e[+-]?\d+)?$/i;
+
+/** Detect separators and quote by sample of CSV:
+ *
+ *       const dialect = sniffCSVDialect(new TextEncoder().encode("a;b\n1;2"));
+ *       // { columnSeparator: ";", lineSeparator: "\n", quote: '"', hasHeader: true, confidence: 1 }
+ *
+ *       const f = await Deno.open("./example.csv");
+ *       const dialect = await sniffCSVDialect(f);
+ *
+ * Reader variant consumes the sample, use `autoDetect` option of read functions
+ * to detect dialect and parse the same stream.
+ */
+export function sniffCSVDialect(
+  sample: Uint8Array,
+  options?: Partial<CSVSnifferOptions>,
+): CSVDialect;
+export function sniffCSVDialect(
+  reader: Reader,
+  options?: Partial<CSVSnifferOptions>,
+): Promise<CSVDialect>;
+export function sniffCSVDialect(
+  source: Uint8Array | Reader,
+  options?: Partial<CSVSnifferOptions>,
+): CSVDialect | Promise<CSVDialect> {
+  if (source instanceof Uint8Array) {
+    return detectDialect(source, !!options?.partial, options?.encoding);
+  }
+
+  return readSample(
+    source,
+    options?.sampleSize || defaultSnifferSampleSize,
+    options?.encoding,
+  );
+}
+
+async function readSample(
+  reader: Reader,
+  size: number,
+  encoding?: string,
+): Promise<CSVDialect> {
+  const sample = new Uint8Array(size);
+  let length = 0;
+
+  while (length < size) {
+    const n = await reader.read(sample.subarray(length));
+    if (n === null) {
+      break;
+    }
+    length += n;
+  }
+
+  return detectDialect(sample.subarray(0, length), length === size, encoding);
+}
+
+function detectDialect(
+  sample: Uint8Array,
+  partial: boolean,
+  encoding?: string,
+): CSVDialect {
+  let text = new TextDecoder(detectEncoding(sample) ?? encoding).decode(sample);
+  const lineSeparator = detectLineSeparator(text);
+
+  if (partial) {
+    // the last line could be cut in the middle
+    const lastLineEnd = text.lastIndexOf(lineSeparator);
+    if (lastLineEnd > 0) {
+      text = text.slice(0, lastLineEnd);
+    }
+  }
+
+  let best: Candidate | undefined;
+  for (const quote of quoteCandidates) {
+    for (const columnSeparator of columnSeparatorCandidates) {
+      const candidate = scoreCandidate(
+        text,
+        columnSeparator,
+        lineSeparator,
+        quote,
+      );
+      if (!best || isBetter(candidate, best)) {
+        best = candidate;
+      }
+    }
+  }
+
+  const { records, columnSeparator, quote, score } = best!;
+
+  return {
+    columnSeparator,
+    lineSeparator,
+    quote,
+    hasHeader: detectHeader(records),
+    confidence: score,
+  };
+}
+
+function detectEncoding(sample: Uint8Array): string | undefined {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (sample[0] === 0xff && sample[1] === 0xfe) {
+    return "utf-16le";
+  }
+  if (sample[0] === 0xfe && sample[1] === 0xff) {
+    return "utf-16be";
+  }
+  return undefined;
+}
+
+function detectLineSeparator(text: string): string {
+  let crlf = 0;
+  let lf = 0;
+  let cr = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\r") {
+      if (text[i + 1] === "\n") {
+        crlf++;
+        i++;
+      } else {
+        cr++;
+      }
+    } else if (text[i] === "\n") {
+      lf++;
+    }
+  }
+
+  if (crlf > 0 && crlf >= lf && crlf >= cr) {
+    return "\r\n";
+  }
+  if (cr > lf) {
+    return "\r";
+  }
+  return "\n";
+}
+
+interface Candidate {
+  columnSeparator: string;
+  quote: string;
+  records: string[][];
+  columns: number;
+  score: number;
+}
+
+function isBetter(a: Candidate, b: Candidate) {
+  if (a.score !== b.score) {
+    return a.score > b.score;
+  }
+  return a.columns > b.columns;
+}
+
+function scoreCandidate(
+  text: string,
+  columnSeparator: string,
+  lineSeparator: string,
+  quote: string,
+): Candidate {
+  const { records, malformed } = tokenize(
+    text,
+    columnSeparator,
+    lineSeparator,
+    quote,
+  );
+
+  const counts = new Map<number, number>();
+  for (const record of records) {
+    counts.set(record.length, (counts.get(record.length) || 0) + 1);
+  }
+
+  let columns = 0;
+  let matched = 0;
+  for (const [length, count] of counts) {
+    if (count > matched || (count === matched && length > columns)) {
+      columns = length;
+      matched = count;
+    }
+  }
+
+  const score = records.length === 0 || columns < 2
+    ? 0
+    : (matched / records.length) * (1 - malformed / records.length);
+
+  return { columnSeparator, quote, records, columns, score };
+}
+
+function tokenize(
+  text: string,
+  columnSeparator: string,
+  lineSeparator: string,
+  quote: string,
+): { records: string[][]; malformed: number } {
+  const records: string[][] = [];
+  let malformed = 0;
+  let record: string[] = [];
+  let cell = "";
+  let inQuote = false;
+  let quoted = false;
+  let broken = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    record.push(cell);
+    if (record.length > 1 || record[0] !== "") {
+      records.push(record);
+      if (broken) {
+        malformed++;
+      }
+    }
+    record = [];
+    cell = "";
+    quoted = false;
+    broken = false;
+  };
+
+  while (i < text.length) {
+    if (inQuote) {
+      if (text.startsWith(quote + quote, i)) {
+        cell += quote;
+        i += quote.length * 2;
+      } else if (text.startsWith(quote, i)) {
+        inQuote = false;
+        i += quote.length;
+      } else {
+        cell += text[i];
+        i++;
+      }
+    } else if (text.startsWith(columnSeparator, i)) {
+      record.push(cell);
+      cell = "";
+      quoted = false;
+      i += columnSeparator.length;
+    } else if (text.startsWith(lineSeparator, i)) {
+      endRecord();
+      i += lineSeparator.length;
+    } else if (text.startsWith(quote, i)) {
+      if (cell === "" && !quoted) {
+        inQuote = true;
+        quoted = true;
+      } else {
+        broken = true;
+      }
+      i += quote.length;
+    } else {
+      if (quoted) {
+        // character after closing quote
+        broken = true;
+      }
+      cell += text[i];
+      i++;
+    }
+  }
+
+  if (inQuote) {
+    // quoted cell is cut by the end of the sample
+    broken = true;
+  }
+  if (cell !== "" || record.length > 0) {
+    endRecord();
+  }
+
+  return { records, malformed };
+}
+
+function detectHeader(records: string[][]): boolean {
+  if (records.length < 2) {
+    return false;
+  }
+
+  const [header, ...rows] = records;
+  if (
+    header.some((cell) => cell.trim() === "") ||
+    new Set(header).size !== header.length
+  ) {
+    return false;
+  }
+
+  let votes = 0;
+  for (let i = 0; i < header.length; i++) {
+    const values = rows
+      .map((row) => row[i])
+      .filter((value) => value !== undefined && value !== "");
+    if (values.length === 0) {
+      continue;
+    }
+
+    if (values.every((value) => numberRegExp.test(value))) {
+      votes += numberRegExp.test(header[i]) ? -1 : 1;
+      continue;
+    }
+
+    const length = values[0].length;
+    if (values.every((value) => value.length === length)) {
+      votes += header[i].length === length ? -1 : 1;
+    }
+  }
+
+  return votes > 0;
+}
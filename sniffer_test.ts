@@ -0,0 +1,114 @@
+import { assertEquals } from "@std/assert/equals";
+import { Buffer } from "@std/io/buffer";
+import { parseCSV, readCSVRows } from "./reader.ts";
+import { sniffCSVDialect } from "./sniffer.ts";
+import { asyncArrayFrom, getUint8Array } from "./utils.ts";
+
+const enc = new TextEncoder();
+
+Deno.test({
+  name: "sniffCSVDialect detects separators and header",
+  fn() {
+    assertEquals(
+      sniffCSVDialect(enc.encode("name;price\r\napple;1,5\r\npear;2\r\n")),
+      {
+        columnSeparator: ";",
+        lineSeparator: "\r\n",
+        quote: '"',
+        hasHeader: true,
+        confidence: 1,
+      },
+    );
+    assertEquals(
+      sniffCSVDialect(enc.encode(`1|"a|b"|x\n2|"c\nd"|y\n3|e|z`)),
+      {
+        columnSeparator: "|",
+        lineSeparator: "\n",
+        quote: '"',
+        hasHeader: false,
+        confidence: 1,
+      },
+    );
+    assertEquals(
+      sniffCSVDialect(enc.encode(`id\tname\n1\t'a\tb'\n2\t'c'`)),
+      {
+        columnSeparator: "\t",
+        lineSeparator: "\n",
+        quote: "'",
+        hasHeader: true,
+        confidence: 1,
+      },
+    );
+  },
+});
+
+Deno.test({
+  name: "sniffCSVDialect reports low confidence for inconsistent sample",
+  fn() {
+    const dialect = sniffCSVDialect(enc.encode(`a,b\n1,2,3\n4\n5,6,7,8`));
+
+    assertEquals(dialect.columnSeparator, ",");
+    assertEquals(dialect.confidence, 0.25);
+    assertEquals(sniffCSVDialect(enc.encode(`a\nb`)).confidence, 0);
+  },
+});
+
+Deno.test({
+  name: "sniffCSVDialect reads sample from reader",
+  async fn() {
+    const reader = new Buffer(enc.encode("a;b\n1;2\n3;4\n5").buffer);
+
+    const dialect = await sniffCSVDialect(reader, { sampleSize: 12 });
+
+    assertEquals(dialect.columnSeparator, ";");
+    assertEquals(dialect.hasHeader, true);
+    assertEquals(reader.length, 1);
+  },
+});
+
+Deno.test({
+  name: "readCSVRows parses the whole stream with autoDetect",
+  async fn() {
+    const content = `a;"b;c"\r\n1;2\r\n3;4`;
+    const chunks = Array.from(enc.encode(content), (byte) => [byte]);
+    const stream = ReadableStream.from(chunks.map((c) => new Uint8Array(c)));
+
+    const rows = await asyncArrayFrom(
+      readCSVRows(stream, { autoDetect: true }),
+    );
+
+    assertEquals(rows, [["a", "b;c"], ["1", "2"], ["3", "4"]]);
+    assertEquals(parseCSV(content, { autoDetect: true }), rows);
+  },
+});
+
+Deno.test({
+  name: "sniffCSVDialect decodes UTF-16 sample",
+  fn() {
+    const text = "name\tprice\r\napple\t1\r\npear\t2\r\n";
+    const dialect = {
+      columnSeparator: "\t",
+      lineSeparator: "\r\n",
+      quote: '"',
+      hasHeader: true,
+      confidence: 1,
+    };
+
+    assertEquals(
+      sniffCSVDialect(getUint8Array(text, "utf-16be"), {
+        encoding: "utf-16be",
+      }),
+      dialect,
+    );
+    assertEquals(
+      sniffCSVDialect(getUint8Array("\ufeff" + text, "utf-16le")),
+      dialect,
+    );
+    assertEquals(
+      parseCSV(getUint8Array("\ufeff" + text, "utf-16le"), {
+        autoDetect: true,
+      }),
+      [["name", "price"], ["apple", "1"], ["pear", "2"]],
+    );
+  },
+});
@@ -1,9 +1,27 @@
+import type { Writer } from "@std/io/types";
 import { getLogger } from "@std/log";
 
 const enc = new TextEncoder();
 
-export function getUint8Array(str: string | Uint8Array): Uint8Array {
-  return str instanceof Uint8Array ? str : enc.encode(str);
+/** Encodes string as UTF-16 when `encoding` is `"utf-16le"` or `"utf-16be"`,
+ * and as UTF-8 otherwise, bytes are returned as is
+ */
+export function getUint8Array(
+  str: string | Uint8Array,
+  encoding?: string,
+): Uint8Array {
+  if (str instanceof Uint8Array) {
+    return str;
+  }
+  if (encoding === "utf-16le" || encoding === "utf-16be") {
+    const result = new Uint8Array(str.length * 2);
+    const view = new DataView(result.buffer);
+    for (let i = 0; i < str.length; i++) {
+      view.setUint16(i * 2, str.charCodeAt(i), encoding === "utf-16le");
+    }
+    return result;
+  }
+  return enc.encode(str);
 }
 
 export function hasPrefixFrom(
@@ -17,10 +35,21 @@ export function hasPrefixFrom(
   return true;
 }
 
-export async function* dummyAsyncIterable(
-  str: Uint8Array,
-): AsyncIterable<Uint8Array> {
-  yield str;
+export function writerFromWritableStream(
+  stream: WritableStream<Uint8Array>,
+): Writer {
+  return {
+    async write(p: Uint8Array): Promise<number> {
+      // lock is released after every write, so the caller could close the stream
+      const writer = stream.getWriter();
+      try {
+        await writer.write(p.slice());
+      } finally {
+        writer.releaseLock();
+      }
+      return p.length;
+    },
+  };
 }
 
 // deno-lint-ignore no-explicit-any
@@ -1,19 +1,53 @@
-import type { Writer } from "@std/io/types";
+import type { Closer, Writer } from "@std/io/types";
+import { concat } from "@std/bytes/concat";
 import { indexOfNeedle } from "@std/bytes/index-of-needle";
+import { writeAll } from "@std/io/write-all";
 import type { SyncAsyncIterable } from "./utils.ts";
 import {
-  dummyAsyncIterable,
   getUint8Array,
   hasPrefixFrom,
   isAsyncIterable,
   makeAsyncIterable,
+  writerFromWritableStream,
 } from "./utils.ts";
 
+/** Destination of CSV bytes: `Writer` or web `WritableStream` */
+export type CSVWriterDestination = Writer | WritableStream<Uint8Array>;
+
+/** Cell accepted by CSV writer, `null` and `undefined` are written as `nullValue` */
+export type CSVWriterCell =
+  | string
+  | Uint8Array
+  | AsyncIterable<Uint8Array>
+  | null
+  | undefined;
+
+/** Row accepted by CSV writer */
+export type CSVWriterRow = SyncAsyncIterable<CSVWriterCell>;
+
 /** Options for CSV writer */
 export interface CSVWriterOptions {
   columnSeparator: string | Uint8Array;
   lineSeparator: string | Uint8Array;
   quote: string | Uint8Array;
+  /** Quotes and escapes inside of quoted cells are prefixed with it instead of doubling quotes */
+  escape: string | Uint8Array;
+  /** Prefix of comment lines, first cells starting with it are quoted */
+  comment: string | Uint8Array;
+  /** Unquoted marker of `null` cells, cells equal to it are quoted when it is set */
+  nullValue: string;
+  /** Encoding of the output, string cells, separators and quote are encoded in it,
+   * `Uint8Array` cells should be in it already, UTF-8 by default
+   */
+  encoding: "utf-8" | "utf-16le" | "utf-16be";
+  /** Write byte order mark first, Excel needs it to detect UTF-8 */
+  bom: boolean;
+  /** Compress output with `CompressionStream`, compressed output ends on `finish` or `close` */
+  compression: "gzip" | "deflate";
+  /** Stops writing, later writes throw the abort reason and buffered bytes are dropped */
+  signal: AbortSignal;
+  /** Buffered bytes are written to the destination when this size is reached */
+  flushSize: number;
 }
 
 /** Options for `CSVWriter.writeCell` */
@@ -25,9 +59,10 @@ const defaultCSVWriterOptions = {
   columnSeparator: ",",
   lineSeparator: "\n",
   quote: '"',
+  flushSize: 64 * 1024,
 };
 
-/** Class for manual CSV writing:
+/** Class for manual CSV writing, output is buffered until `flush` or `close`:
  *
  *       const writer = new CSVWriter(f, {
  *         columnSeparator: "\t",
@@ -36,121 +71,409 @@ const defaultCSVWriterOptions = {
  *       await writer.writeCell("a\nb");
  *       await writer.nextLine();
  *       await writer.writeCell('1"2');
+ *       await writer.flush();
+ *
+ * With `compression` option call `finish` or `close` to write the end of compressed output:
+ *
+ *       const writer = new CSVWriter(f, { compression: "gzip" });
+ *       await writer.writeCell("a");
+ *       await writer.finish();
+ *
+ * Comments are written with `comment` option as separate lines:
+ *
+ *       const writer = new CSVWriter(f, { comment: "#" });
+ *       await writer.writeComment("exported at 2020-01-01");
+ *       await writer.writeCell("a");
  */
 export class CSVWriter {
+  private destination: CSVWriterDestination;
   private writer: Writer;
   private columnSeparator: Uint8Array;
   private lineSeparator: Uint8Array;
   private quote: Uint8Array;
+  private escape?: Uint8Array;
+  private comment?: Uint8Array;
+  private nullValue?: Uint8Array;
+  private encoding?: string;
+  private codeUnitSize: number;
   private firstColumn: boolean;
+  private flushSize: number;
+  private outputBuffer: Uint8Array;
+  private outputBufferIndex: number;
+  private compressed?: { writable: WritableStream; piped: Promise<void> };
+  private finished: boolean;
+  private closed: boolean;
+  private signal?: AbortSignal;
+  private abortListener: () => void;
 
-  constructor(writer: Writer, options?: Partial<CSVWriterOptions>) {
-    this.writer = writer;
-    this.columnSeparator = getUint8Array(
-      (options && options.columnSeparator) ||
-        defaultCSVWriterOptions.columnSeparator,
-    );
-    this.lineSeparator = getUint8Array(
-      (options && options.lineSeparator) ||
-        defaultCSVWriterOptions.lineSeparator,
-    );
-    this.quote = getUint8Array(
-      (options && options.quote) || defaultCSVWriterOptions.quote,
-    );
+  constructor(
+    writer: CSVWriterDestination,
+    options?: Partial<CSVWriterOptions>,
+  ) {
+    this.destination = writer;
+    if (options?.compression) {
+      const { readable, writable } = new CompressionStream(
+        options.compression,
+      );
+      // the destination is closed by close(), not by the end or abort of compressed output
+      const piped = writer instanceof WritableStream
+        ? readable.pipeTo(writer, {
+          preventClose: true,
+          preventAbort: true,
+          preventCancel: true,
+        })
+        : readable.pipeTo(
+          new WritableStream({ write: (chunk) => writeAll(writer, chunk) }),
+        );
+      // errors are thrown by writes and finish
+      piped.catch(() => {});
+      this.compressed = { writable, piped };
+      this.writer = writerFromWritableStream(writable);
+    } else {
+      this.writer = writer instanceof WritableStream
+        ? writerFromWritableStream(writer)
+        : writer;
+    }
+    const {
+      columnSeparator,
+      lineSeparator,
+      quote,
+      escape,
+      comment,
+      nullValue,
+      codeUnitSize,
+    } = getSeparators(options);
+    this.columnSeparator = columnSeparator;
+    this.lineSeparator = lineSeparator;
+    this.quote = quote;
+    this.escape = escape;
+    this.comment = comment;
+    this.nullValue = nullValue;
+    this.encoding = options?.encoding;
+    this.codeUnitSize = codeUnitSize;
     this.firstColumn = true;
+    this.flushSize = (options && options.flushSize) ||
+      defaultCSVWriterOptions.flushSize;
+    this.outputBuffer = new Uint8Array(this.flushSize);
+    this.outputBufferIndex = 0;
+    this.finished = false;
+    this.closed = false;
+    this.signal = options?.signal;
+    this.abortListener = () => this.abort();
+    this.signal?.addEventListener("abort", this.abortListener);
+    if (options?.bom) {
+      this.append(getUint8Array("\ufeff", this.encoding));
+    }
   }
 
   public writeCell(
-    str: string | Uint8Array | AsyncIterable<Uint8Array>,
+    str: CSVWriterCell,
     options?: Partial<CSVWriteCellOptions>,
   ): Promise<void> {
+    const closed = this.rejectIfClosed();
+    if (closed) {
+      return closed;
+    }
+
+    if (str === null || str === undefined) {
+      this.startCell();
+      if (this.nullValue) {
+        this.append(this.nullValue);
+      }
+      return this.flushIfFull();
+    }
+
     if (isAsyncIterable(str)) {
-      return this._writeCellAsyncIterable(str, { wrap: true });
+      return this._writeCellAsyncIterable(str);
     }
 
-    const arr = getUint8Array(str);
-    const wrap = options?.forceQuotes ||
-      indexOfNeedle(arr, this.quote) >= 0 ||
-      indexOfNeedle(arr, this.columnSeparator) >= 0 ||
-      indexOfNeedle(arr, this.lineSeparator) >= 0;
+    const arr = getUint8Array(str, this.encoding);
+    const wrap = needsQuotes(
+      arr,
+      this.columnSeparator,
+      this.lineSeparator,
+      this.quote,
+      this.escape,
+      this.firstColumn ? this.comment : undefined,
+      this.nullValue,
+      this.codeUnitSize,
+      options,
+    );
 
-    return this._writeCellAsyncIterable(dummyAsyncIterable(arr), {
-      wrap,
-    });
+    this.startCell();
+    if (wrap) {
+      this.append(this.quote);
+      this.append(
+        escapeQuotes(arr, this.quote, this.escape, this.codeUnitSize),
+      );
+      this.append(this.quote);
+    } else {
+      this.append(arr);
+    }
+
+    return this.flushIfFull();
   }
 
   private async _writeCellAsyncIterable(
     iterable: AsyncIterable<Uint8Array>,
-    options: { wrap: boolean },
   ): Promise<void> {
-    const { quote } = this;
-    const { wrap } = options;
+    const { quote, escape, codeUnitSize } = this;
+    const prefix = escape || quote;
+    // tail of previous chunk which could be the beginning of quote or escape
+    let rest = new Uint8Array();
+    // position of rest in the cell, matches inside of code units are skipped
+    let position = 0;
+
+    this.startCell();
+    this.append(quote);
 
-    const iterator = iterable[Symbol.asyncIterator]();
+    for await (const chunk of iterable) {
+      const arr = rest.length > 0 ? concat([rest, chunk]) : chunk;
 
-    let inputBuffer = new Uint8Array();
-    let inputBufferEmpty = false;
-    let inputBufferIndex = 0;
+      let start = 0;
+      let found: { index: number; length: number } | undefined;
+      while (
+        (found = findEscaped(arr, start, quote, escape, codeUnitSize, position))
+      ) {
+        this.append(arr.subarray(start, found.index));
+        this.append(prefix);
+        this.append(arr.subarray(found.index, found.index + found.length));
+        start = found.index + found.length;
+      }
+
+      const keep = Math.min(
+        Math.max(quote.length, escape?.length || 0) - 1,
+        arr.length - start,
+      );
+      this.append(arr.subarray(start, arr.length - keep));
+      rest = arr.slice(arr.length - keep);
+      position += arr.length - keep;
+
+      await this.flushIfFull();
+    }
+
+    this.append(rest);
+    this.append(quote);
 
+    await this.flushIfFull();
+  }
+
+  public nextLine(): Promise<void> {
+    const closed = this.rejectIfClosed();
+    if (closed) {
+      return closed;
+    }
+    this.firstColumn = true;
+    this.append(this.lineSeparator);
+    return this.flushIfFull();
+  }
+
+  /** Write comment lines at the start of line, every line of text gets the prefix */
+  public writeComment(text: string): Promise<void> {
+    const closed = this.rejectIfClosed();
+    if (closed) {
+      return closed;
+    }
+    if (!this.comment) {
+      return Promise.reject(new Error("CSVWriter comment option is not set"));
+    }
+    if (!this.firstColumn) {
+      return Promise.reject(
+        new Error("CSVWriter.writeComment is called in the middle of line"),
+      );
+    }
+
+    for (const line of text.split(/\r\n|\r|\n/)) {
+      this.append(this.comment);
+      this.append(getUint8Array(line, this.encoding));
+      this.append(this.lineSeparator);
+    }
+
+    return this.flushIfFull();
+  }
+
+  /** Write all buffered bytes to the destination */
+  public async flush(): Promise<void> {
+    this.signal?.throwIfAborted();
+    if (this.outputBufferIndex === 0) {
+      return;
+    }
+
+    // writeAll repeats partial writes, so buffer is reused only after that
+    await writeAll(
+      this.writer,
+      this.outputBuffer.subarray(0, this.outputBufferIndex),
+    );
+    this.outputBufferIndex = 0;
+  }
+
+  /** Flush buffered bytes and write the end of compressed output, the destination stays open */
+  public async finish(): Promise<void> {
+    if (this.finished) {
+      return;
+    }
+
+    await this.flush();
+    this.finished = true;
+    this.outputBuffer = new Uint8Array();
+    this.signal?.removeEventListener("abort", this.abortListener);
+
+    if (this.compressed) {
+      await this.compressed.writable.close();
+      await this.compressed.piped;
+    }
+  }
+
+  /** Finish output and close the destination, aborted output isn't finished */
+  public async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    if (!this.signal?.aborted) {
+      await this.finish();
+    } else if (this.compressed) {
+      // the pipe releases the destination when aborted compressed output is errored
+      await this.compressed.piped.catch(() => {});
+    }
+    this.closed = true;
+
+    if (this.destination instanceof WritableStream) {
+      await this.destination.close();
+    } else {
+      (this.destination as Partial<Closer>).close?.();
+    }
+  }
+
+  private abort() {
+    this.signal?.removeEventListener("abort", this.abortListener);
+    this.outputBuffer = new Uint8Array();
+    this.outputBufferIndex = 0;
+    // compressed output is dropped as well, the destination is kept open
+    this.compressed?.writable.abort(this.signal!.reason).catch(() => {});
+  }
+
+  /** Rejected promise for writes after abort, finish or close */
+  private rejectIfClosed(): Promise<never> | undefined {
+    if (this.signal?.aborted) {
+      return Promise.reject(this.signal.reason);
+    }
+    if (this.finished) {
+      return Promise.reject(new Error("CSVWriter is closed"));
+    }
+  }
+
+  private startCell() {
     if (this.firstColumn) {
       this.firstColumn = false;
     } else {
-      await this.writer.write(this.columnSeparator);
+      this.append(this.columnSeparator);
     }
+  }
 
-    if (wrap) {
-      await this.writer.write(this.quote);
+  private append(chunk: Uint8Array) {
+    const required = this.outputBufferIndex + chunk.length;
+
+    if (required > this.outputBuffer.length) {
+      // cell bigger than flushSize, buffer grows to fit it
+      const newOutputBuffer = new Uint8Array(
+        Math.max(required, this.outputBuffer.length * 2),
+      );
+      newOutputBuffer.set(
+        this.outputBuffer.subarray(0, this.outputBufferIndex),
+      );
+      this.outputBuffer = newOutputBuffer;
     }
 
-    while (true) {
-      const inputBufferUnprocessed = inputBuffer.length - inputBufferIndex;
+    this.outputBuffer.set(chunk, this.outputBufferIndex);
+    this.outputBufferIndex += chunk.length;
+  }
 
-      if (inputBufferEmpty && inputBufferUnprocessed === 0) {
-        break;
-      }
+  private flushIfFull(): Promise<void> {
+    if (this.outputBufferIndex >= this.flushSize) {
+      return this.flush();
+    }
 
-      if (!inputBufferEmpty && inputBufferUnprocessed < quote.length) {
-        const { done, value } = await iterator.next();
-        if (done) {
-          inputBufferEmpty = true;
-        } else {
-          const newInputBuffer = new Uint8Array(
-            inputBuffer.length + value.length,
-          );
-          newInputBuffer.set(inputBuffer);
-          newInputBuffer.set(value, inputBuffer.length);
-          inputBuffer = newInputBuffer;
-        }
-        continue;
+    return Promise.resolve();
+  }
+}
+
+/** Write CSV which fits in memory to string:
+ *
+ *       const str = stringifyCSV([["a", "b"], ["1", "2"]]);
+ *       // "a,b\n1,2"
+ */
+export function stringifyCSV(
+  rows: Iterable<Iterable<string | Uint8Array | null | undefined>>,
+  options?: Partial<
+    Omit<CSVWriterOptions, "compression" | "signal"> & CSVWriteCellOptions
+  >,
+): string {
+  const {
+    columnSeparator,
+    lineSeparator,
+    quote,
+    escape,
+    comment,
+    nullValue,
+    codeUnitSize,
+  } = getSeparators(options);
+  const chunks: Uint8Array[] = [];
+  if (options?.bom) {
+    chunks.push(getUint8Array("\ufeff", options.encoding));
+  }
+
+  let firstLine = true;
+  for (const row of rows) {
+    if (firstLine) {
+      firstLine = false;
+    } else {
+      chunks.push(lineSeparator);
+    }
+
+    let firstColumn = true;
+    for (const cell of row) {
+      if (!firstColumn) {
+        chunks.push(columnSeparator);
       }
 
-      if (wrap && hasPrefixFrom(inputBuffer, quote, inputBufferIndex)) {
-        await this.writer.write(quote);
-        await this.writer.write(quote);
-        inputBufferIndex += quote.length;
+      if (cell === null || cell === undefined) {
+        firstColumn = false;
+        if (nullValue) {
+          chunks.push(nullValue);
+        }
         continue;
       }
 
-      if (inputBufferUnprocessed > 0) {
-        await this.writer.write(
-          inputBuffer.subarray(inputBufferIndex, inputBufferIndex + 1),
+      const arr = getUint8Array(cell, options?.encoding);
+      const wrap = needsQuotes(
+        arr,
+        columnSeparator,
+        lineSeparator,
+        quote,
+        escape,
+        firstColumn ? comment : undefined,
+        nullValue,
+        codeUnitSize,
+        options,
+      );
+      firstColumn = false;
+      if (wrap) {
+        chunks.push(
+          quote,
+          escapeQuotes(arr, quote, escape, codeUnitSize),
+          quote,
         );
-        inputBufferIndex++;
-        continue;
+      } else {
+        chunks.push(arr);
       }
-
-      throw new Error("unexpected");
-    }
-
-    if (wrap) {
-      await this.writer.write(this.quote);
     }
   }
 
-  public async nextLine() {
-    this.firstColumn = true;
-    await this.writer.write(this.lineSeparator);
-  }
+  // BOM is kept in the string when it is asked for
+  return new TextDecoder(options?.encoding, { ignoreBOM: true }).decode(
+    concat(chunks),
+  );
 }
 
 /** Write CSV with sync or async row iterators:
@@ -164,10 +487,8 @@ export class CSVWriter {
  *       await writeCSV(f, asyncRowGenerator());
  */
 export async function writeCSV(
-  writer: Writer,
-  iter: SyncAsyncIterable<
-    SyncAsyncIterable<string | Uint8Array | AsyncIterable<Uint8Array>>
-  >,
+  writer: CSVWriterDestination,
+  iter: SyncAsyncIterable<CSVWriterRow>,
   options?: Partial<CSVWriterOptions & CSVWriteCellOptions>,
 ) {
   const csv = new CSVWriter(writer, options);
@@ -181,10 +502,10 @@ export async function writeCSV(
       await csv.nextLine();
     }
 
-    for await (const cell of makeAsyncIterable(row)) {
-      await csv.writeCell(cell, options);
-    }
+    await writeRowCells(csv, row, options);
   }
+
+  await csv.finish();
 }
 
 /** Write CSV with sync or async object iterators:
@@ -198,27 +519,236 @@ export async function writeCSV(
  *       await writeCSVObjects(f, asyncObjectsGenerator(), { header: ["a", "b", "c"] });
  */
 export async function writeCSVObjects(
-  writer: Writer,
-  iter: SyncAsyncIterable<{ [key: string]: string }>,
+  writer: CSVWriterDestination,
+  iter: SyncAsyncIterable<{ [key: string]: string | null | undefined }>,
   options: Partial<CSVWriterOptions & CSVWriteCellOptions> & {
     header: readonly string[];
   },
 ) {
   const { header } = options;
 
-  const row = function* (obj: { [key: string]: string }) {
-    for (const key of header) {
-      yield obj[key];
-    }
-  };
-
   const rows = async function* () {
     yield header;
 
     for await (const obj of makeAsyncIterable(iter)) {
-      yield row(obj);
+      yield objectCells(obj, header);
     }
   };
 
   await writeCSV(writer, rows(), options);
 }
+
+/** Options for `CSVStringifyStream` */
+export interface CSVStringifyStreamOptions
+  extends CSVWriterOptions, CSVWriteCellOptions {
+  /** When set, stream accepts objects and writes this header first */
+  header: readonly string[];
+}
+
+/** Transform stream writing rows (or objects when `header` is set) as CSV bytes:
+ *
+ *       const rows = ReadableStream.from([["a", "b"], ["1", "2"]]);
+ *       return new Response(rows.pipeThrough(new CSVStringifyStream()));
+ *
+ *       const objects = ReadableStream.from([{ a: "1", b: "2" }]);
+ *       objects.pipeThrough(new CSVStringifyStream({ header: ["a", "b"] }));
+ */
+export class CSVStringifyStream<
+  T extends CSVWriterRow | { [key: string]: string | null | undefined } =
+    CSVWriterRow,
+> extends TransformStream<T, Uint8Array> {
+  constructor(options?: Partial<CSVStringifyStreamOptions>) {
+    const header = options?.header;
+    let controller: TransformStreamDefaultController<Uint8Array>;
+    const csv = new CSVWriter({
+      write(p: Uint8Array): Promise<number> {
+        controller.enqueue(p.slice());
+        return Promise.resolve(p.length);
+      },
+    }, options);
+    let firstLine = true;
+
+    const writeRow = async (row: CSVWriterRow) => {
+      if (firstLine) {
+        firstLine = false;
+      } else {
+        await csv.nextLine();
+      }
+
+      await writeRowCells(csv, row, options);
+
+      // every row is enqueued as soon as it is written
+      await csv.flush();
+    };
+
+    super({
+      async start(c) {
+        controller = c;
+        if (header) {
+          await writeRow(header);
+        }
+      },
+      async transform(chunk) {
+        await writeRow(
+          header
+            ? objectCells(
+              chunk as { [key: string]: string | null | undefined },
+              header,
+            )
+            : chunk as CSVWriterRow,
+        );
+      },
+      async flush() {
+        await csv.finish();
+      },
+    });
+  }
+}
+
+function getSeparators(options?: Partial<CSVWriterOptions>) {
+  const encoding = options?.encoding;
+  const quote = getUint8Array(
+    (options && options.quote) || defaultCSVWriterOptions.quote,
+    encoding,
+  );
+  const escape = options && options.escape
+    ? getUint8Array(options.escape, encoding)
+    : undefined;
+
+  return {
+    columnSeparator: getUint8Array(
+      (options && options.columnSeparator) ||
+        defaultCSVWriterOptions.columnSeparator,
+      encoding,
+    ),
+    lineSeparator: getUint8Array(
+      (options && options.lineSeparator) ||
+        defaultCSVWriterOptions.lineSeparator,
+      encoding,
+    ),
+    quote,
+    // escape which is the same as quote is doubling
+    escape: escape &&
+        !(escape.length === quote.length && hasPrefixFrom(escape, quote, 0))
+      ? escape
+      : undefined,
+    comment: options && options.comment
+      ? getUint8Array(options.comment, encoding)
+      : undefined,
+    nullValue: options && options.nullValue !== undefined
+      ? getUint8Array(options.nullValue, encoding)
+      : undefined,
+    codeUnitSize: encoding === "utf-16le" || encoding === "utf-16be" ? 2 : 1,
+  };
+}
+
+function needsQuotes(
+  arr: Uint8Array,
+  columnSeparator: Uint8Array,
+  lineSeparator: Uint8Array,
+  quote: Uint8Array,
+  escape: Uint8Array | undefined,
+  comment: Uint8Array | undefined,
+  nullValue: Uint8Array | undefined,
+  codeUnitSize: number,
+  options?: Partial<CSVWriteCellOptions>,
+): boolean {
+  return !!options?.forceQuotes ||
+    (!!comment && hasPrefixFrom(arr, comment, 0)) ||
+    (!!nullValue && arr.length === nullValue.length &&
+      hasPrefixFrom(arr, nullValue, 0)) ||
+    indexOfCodeUnits(arr, quote, 0, codeUnitSize) >= 0 ||
+    (!!escape && indexOfCodeUnits(arr, escape, 0, codeUnitSize) >= 0) ||
+    indexOfCodeUnits(arr, columnSeparator, 0, codeUnitSize) >= 0 ||
+    indexOfCodeUnits(arr, lineSeparator, 0, codeUnitSize) >= 0;
+}
+
+/** Like `indexOfNeedle`, but skips matches which don't start a code unit,
+ * `position` is the position of `arr` in the cell
+ */
+function indexOfCodeUnits(
+  arr: Uint8Array,
+  needle: Uint8Array,
+  start: number,
+  codeUnitSize: number,
+  position = 0,
+): number {
+  let index = indexOfNeedle(arr, needle, start);
+  while (index >= 0 && (position + index) % codeUnitSize !== 0) {
+    index = indexOfNeedle(arr, needle, index + 1);
+  }
+  return index;
+}
+
+/** Doubles quotes or prefixes quotes and escapes with escape */
+function escapeQuotes(
+  arr: Uint8Array,
+  quote: Uint8Array,
+  escape: Uint8Array | undefined,
+  codeUnitSize: number,
+): Uint8Array {
+  const prefix = escape || quote;
+  const chunks: Uint8Array[] = [];
+  let start = 0;
+  let found: { index: number; length: number } | undefined;
+  while ((found = findEscaped(arr, start, quote, escape, codeUnitSize))) {
+    chunks.push(
+      arr.subarray(start, found.index),
+      prefix,
+      arr.subarray(found.index, found.index + found.length),
+    );
+    start = found.index + found.length;
+  }
+  if (start === 0) {
+    return arr;
+  }
+  chunks.push(arr.subarray(start));
+  return concat(chunks);
+}
+
+/** Finds the first quote or escape which should be escaped */
+function findEscaped(
+  arr: Uint8Array,
+  start: number,
+  quote: Uint8Array,
+  escape: Uint8Array | undefined,
+  codeUnitSize: number,
+  position = 0,
+): { index: number; length: number } | undefined {
+  const quoteIndex = indexOfCodeUnits(
+    arr,
+    quote,
+    start,
+    codeUnitSize,
+    position,
+  );
+  const escapeIndex = escape
+    ? indexOfCodeUnits(arr, escape, start, codeUnitSize, position)
+    : -1;
+  if (escapeIndex >= 0 && (quoteIndex < 0 || escapeIndex < quoteIndex)) {
+    return { index: escapeIndex, length: escape!.length };
+  }
+  if (quoteIndex >= 0) {
+    return { index: quoteIndex, length: quote.length };
+  }
+  return undefined;
+}
+
+async function writeRowCells(
+  csv: CSVWriter,
+  row: CSVWriterRow,
+  options?: Partial<CSVWriteCellOptions>,
+) {
+  for await (const cell of makeAsyncIterable(row)) {
+    await csv.writeCell(cell, options);
+  }
+}
+
+function* objectCells(
+  obj: { [key: string]: string | null | undefined },
+  header: readonly string[],
+) {
+  for (const key of header) {
+    yield obj[key];
+  }
+}
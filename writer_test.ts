@@ -1,6 +1,14 @@
 import { assertEquals } from "@std/assert/equals";
+import { assertRejects } from "@std/assert/rejects";
+import { concat } from "@std/bytes/concat";
 import { Buffer } from "@std/io/buffer";
-import { CSVWriter, writeCSV, writeCSVObjects } from "./writer.ts";
+import {
+  CSVStringifyStream,
+  CSVWriter,
+  stringifyCSV,
+  writeCSV,
+  writeCSVObjects,
+} from "./writer.ts";
 
 Deno.test({
   name: "CSVWriter writes simple file",
@@ -15,6 +23,7 @@ Deno.test({
     await writer.writeCell("1");
     await writer.writeCell("2");
     await writer.writeCell("3");
+    await writer.flush();
 
     assertEquals(new TextDecoder().decode(buf.bytes()), "a,b,c\n1,2,3");
   },
@@ -33,6 +42,7 @@ Deno.test({
     await writer.writeCell('1"2');
     await writer.writeCell("2,3");
     await writer.writeCell("3\n4");
+    await writer.flush();
 
     assertEquals(
       new TextDecoder().decode(buf.bytes()),
@@ -58,6 +68,7 @@ Deno.test({
     await writer.writeCell("a");
     await writer.nextLine();
     await writer.writeCell(asyncCell());
+    await writer.flush();
 
     assertEquals(new TextDecoder().decode(buf.bytes()), `a\n"1\n"",2"`);
   },
@@ -117,3 +128,371 @@ Deno.test({
     assertEquals(new TextDecoder().decode(buf.bytes()), `a,b,c\n1,2,3\n4,5,6`);
   },
 });
+
+Deno.test({
+  name: "CSVStringifyStream output is identical to writeCSV",
+  async fn() {
+    const rows = [
+      ["a", "b", "c"],
+      ['1"2', "2,3", "3\r\n4"],
+      ["", "😀", "x"],
+    ];
+    const options = { lineSeparator: "\r\n", forceQuotes: true };
+    const buf = new Buffer();
+
+    await writeCSV(buf, rows, options);
+    const res = new Response(
+      ReadableStream.from(rows).pipeThrough(new CSVStringifyStream(options)),
+    );
+
+    assertEquals(new Uint8Array(await res.arrayBuffer()), buf.bytes());
+  },
+});
+
+Deno.test({
+  name: "CSVStringifyStream writes objects with header",
+  async fn() {
+    const objects = ReadableStream.from([
+      { a: "1", b: "2" },
+      { a: "3", b: "4" },
+    ]);
+
+    const res = new Response(
+      objects.pipeThrough(new CSVStringifyStream({ header: ["b", "a"] })),
+    );
+
+    assertEquals(await res.text(), `b,a\n2,1\n4,3`);
+  },
+});
+
+Deno.test({
+  name: "writeCSV writes to WritableStream",
+  async fn() {
+    const chunks: Uint8Array[] = [];
+    const stream = new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(chunk);
+      },
+    });
+
+    await writeCSVObjects(stream, [{ a: "1", b: "2,3" }], {
+      header: ["a", "b"],
+    });
+    await stream.close();
+
+    assertEquals(
+      new TextDecoder().decode(concat(chunks)),
+      `a,b\n1,"2,3"`,
+    );
+  },
+});
+
+Deno.test({
+  name: "stringifyCSV output is identical to writeCSV",
+  async fn() {
+    const rows = [
+      ["a", "b", "c"],
+      ['1"2', "2,3", "3\n4"],
+      ["", "😀", '""'],
+    ];
+
+    for (
+      const options of [
+        {},
+        { forceQuotes: true },
+        { quote: "$$", columnSeparator: "\t", lineSeparator: "\r\n" },
+      ]
+    ) {
+      const buf = new Buffer();
+      await writeCSV(buf, rows, options);
+
+      assertEquals(
+        stringifyCSV(rows, options),
+        new TextDecoder().decode(buf.bytes()),
+      );
+    }
+  },
+});
+
+Deno.test({
+  name: "CSVWriter buffers output until flushSize is reached",
+  async fn() {
+    const buf = new Buffer();
+    const writer = new CSVWriter(buf, { flushSize: 8 });
+
+    await writer.writeCell("a");
+    await writer.writeCell("b");
+    assertEquals(buf.length, 0);
+
+    await writer.writeCell("1234567");
+    assertEquals(new TextDecoder().decode(buf.bytes()), "a,b,1234567");
+
+    await writer.writeCell("c");
+    assertEquals(buf.length, 11);
+
+    await writer.flush();
+    assertEquals(new TextDecoder().decode(buf.bytes()), "a,b,1234567,c");
+  },
+});
+
+Deno.test({
+  name: "CSVWriter handles partial writes",
+  async fn() {
+    const buf = new Buffer();
+    let writes = 0;
+    const slowWriter = {
+      write(p: Uint8Array): Promise<number> {
+        writes++;
+        return buf.write(p.subarray(0, 3));
+      },
+    };
+
+    await writeCSV(slowWriter, [["a", "b"], ["1,2", "3"]]);
+
+    assertEquals(new TextDecoder().decode(buf.bytes()), `a,b\n"1,2",3`);
+    assertEquals(writes, 4);
+  },
+});
+
+Deno.test({
+  name: "CSVWriter escapes quotes split between async iterable chunks",
+  async fn() {
+    const buf = new Buffer();
+    const writer = new CSVWriter(buf, { quote: "''" });
+    const asyncCell = async function* () {
+      const enc = new TextEncoder();
+      yield enc.encode("a'");
+      yield enc.encode("'b'");
+      yield enc.encode("'");
+    };
+
+    await writer.writeCell(asyncCell());
+    await writer.flush();
+
+    assertEquals(new TextDecoder().decode(buf.bytes()), `''a''''b''''''`);
+  },
+});
+
+Deno.test({
+  name: "CSVWriter.close flushes and closes WritableStream",
+  async fn() {
+    const chunks: Uint8Array[] = [];
+    let closed = false;
+    const stream = new WritableStream<Uint8Array>({
+      write(chunk) {
+        chunks.push(chunk);
+      },
+      close() {
+        closed = true;
+      },
+    });
+    const writer = new CSVWriter(stream);
+
+    await writer.writeCell("a");
+    await writer.nextLine();
+    await writer.writeCell("b");
+    await writer.close();
+
+    assertEquals(new TextDecoder().decode(concat(chunks)), "a\nb");
+    assertEquals(closed, true);
+    await assertRejects(
+      () => writer.writeCell("c"),
+      Error,
+      "CSVWriter is closed",
+    );
+  },
+});
+
+Deno.test({
+  name: "CSVWriter writes comments",
+  async fn() {
+    const buf = new Buffer();
+    const writer = new CSVWriter(buf, { comment: "#" });
+
+    await writer.writeComment("first\nsecond");
+    await writer.writeCell("#a");
+    await writer.writeCell("#b");
+    await assertRejects(() => writer.writeComment("middle"));
+    await writer.nextLine();
+    await writer.writeComment("");
+    await writer.writeCell("1");
+    await writer.flush();
+
+    assertEquals(
+      new TextDecoder().decode(buf.bytes()),
+      '#first\n#second\n"#a",#b\n#\n1',
+    );
+    assertEquals(
+      stringifyCSV([["#a", "#b"]], { comment: "#" }),
+      '"#a",#b',
+    );
+    await assertRejects(() => new CSVWriter(buf).writeComment("text"));
+  },
+});
+
+Deno.test({
+  name: "CSVWriter escapes quotes with escape option",
+  async fn() {
+    const rows = [['a"b', "c\\d", "e,f", "g"]];
+    const expected = `"a\\"b","c\\\\d","e,f",g`;
+
+    assertEquals(stringifyCSV(rows, { escape: "\\" }), expected);
+    assertEquals(stringifyCSV(rows, { escape: '"' }), stringifyCSV(rows));
+
+    const buf = new Buffer();
+    const writer = new CSVWriter(buf, { escape: "\\" });
+    await writer.writeCell('a"b');
+    await writer.writeCell("c\\d");
+    await writer.writeCell("e,f");
+    await writer.writeCell("g");
+    await writer.flush();
+    assertEquals(new TextDecoder().decode(buf.bytes()), expected);
+
+    const streamBuf = new Buffer();
+    const streamWriter = new CSVWriter(streamBuf, { escape: "\\" });
+    await streamWriter.writeCell(
+      ReadableStream.from(
+        ["a", '"', "\\b"].map((s) => new TextEncoder().encode(s)),
+      ),
+    );
+    await streamWriter.flush();
+    assertEquals(new TextDecoder().decode(streamBuf.bytes()), `"a\\"\\\\b"`);
+  },
+});
+
+Deno.test({
+  name: "CSVWriter writes null cells as nullValue",
+  async fn() {
+    const buf = new Buffer();
+    const writer = new CSVWriter(buf, { nullValue: "\\N" });
+
+    await writer.writeCell(null);
+    await writer.writeCell("\\N");
+    await writer.writeCell(undefined);
+    await writer.writeCell("");
+    await writer.flush();
+
+    assertEquals(new TextDecoder().decode(buf.bytes()), `\\N,"\\N",\\N,`);
+    assertEquals(stringifyCSV([[null, "", "a"]], { nullValue: "" }), `,"",a`);
+    assertEquals(stringifyCSV([[null, "", "a"]]), `,,a`);
+  },
+});
+
+Deno.test({
+  name: "CSVWriter writes UTF-16 with BOM",
+  async fn() {
+    const buf = new Buffer();
+    const writer = new CSVWriter(buf, { encoding: "utf-16le", bom: true });
+
+    await writer.writeCell("∂Ā");
+    await writer.writeCell('a"b');
+    await writer.nextLine();
+    await writer.writeCell("c,d");
+    await writer.flush();
+
+    assertEquals(
+      new TextDecoder("utf-16le", { ignoreBOM: true }).decode(buf.bytes()),
+      `\ufeff∂Ā,"a""b"\n"c,d"`,
+    );
+    assertEquals(
+      buf.bytes().subarray(0, 6),
+      new Uint8Array([0xff, 0xfe, 2, 0x22, 0, 1]),
+    );
+    assertEquals(
+      stringifyCSV([["a", "b"]], { bom: true }),
+      "\ufeffa,b",
+    );
+  },
+});
+
+Deno.test({
+  name: "CSVWriter compresses output",
+  async fn() {
+    const decompress = async (bytes: Uint8Array, format: CompressionFormat) =>
+      new TextDecoder().decode(
+        concat(
+          await Array.fromAsync(
+            ReadableStream.from([bytes]).pipeThrough(
+              new DecompressionStream(format),
+            ),
+          ),
+        ),
+      );
+
+    const buf = new Buffer();
+    await writeCSV(buf, [["a", "b"], ["1", "2"]], { compression: "gzip" });
+    assertEquals(await decompress(buf.bytes(), "gzip"), "a,b\n1,2");
+
+    const stream = ReadableStream.from([["a", "b"], ["1", "2"]])
+      .pipeThrough(new CSVStringifyStream({ compression: "deflate" }));
+    assertEquals(
+      await decompress(concat(await Array.fromAsync(stream)), "deflate"),
+      "a,b\n1,2",
+    );
+
+    const writer = new CSVWriter(new Buffer(), { compression: "gzip" });
+    await writer.finish();
+    await assertRejects(
+      () => writer.writeCell("a"),
+      Error,
+      "CSVWriter is closed",
+    );
+  },
+});
+
+Deno.test({
+  name: "writeCSV options.signal stops writing",
+  async fn() {
+    const buf = new Buffer();
+    const controller = new AbortController();
+    const rows = async function* () {
+      yield ["a"];
+      controller.abort();
+      yield ["b"];
+    };
+
+    await assertRejects(
+      () => writeCSV(buf, rows(), { signal: controller.signal }),
+      DOMException,
+      "aborted",
+    );
+    assertEquals(buf.length, 0);
+
+    const writer = new CSVWriter(new Buffer(), {
+      signal: AbortSignal.abort(),
+    });
+    await assertRejects(
+      () => writer.writeCell("a"),
+      DOMException,
+      "aborted",
+    );
+    await writer.close();
+  },
+});
+
+Deno.test({
+  name: "CSVWriter closes WritableStream after compressed output is aborted",
+  async fn() {
+    let closed = false;
+    let aborted = false;
+    const stream = new WritableStream<Uint8Array>({
+      close() {
+        closed = true;
+      },
+      abort() {
+        aborted = true;
+      },
+    });
+    const controller = new AbortController();
+    const writer = new CSVWriter(stream, {
+      compression: "gzip",
+      signal: controller.signal,
+    });
+
+    await writer.writeCell("a");
+    controller.abort();
+    await writer.close();
+
+    assertEquals({ closed, aborted }, { closed: true, aborted: false });
+  },
+});